@@ -0,0 +1,137 @@
+import express from "express";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+// A throwaway OpenID Connect provider for trying single sign-on locally. It signs ID tokens with a key made at
+// startup and lets you type in whichever identity you want to sign in as. Never expose it outside dev.
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || "4000", 10);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || "ankur-jobs";
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || "mock-secret";
+const KEY_ID = "mock-key";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  claims: Record<string, any>;
+  expiresAt: number;
+}
+const codes = new Map<string, PendingCode>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+  });
+});
+
+app.get("/jwks", (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, alg: "RS256", use: "sig" }] });
+});
+
+// Login page: every query parameter from the client is carried through the form as a hidden field
+app.get("/authorize", (req, res) => {
+  const query = req.query as Record<string, string>;
+  if (query.client_id !== CLIENT_ID) return res.status(400).send("Unknown client_id");
+  if (query.response_type !== "code" || !query.redirect_uri || query.code_challenge_method !== "S256") {
+    return res.status(400).send("Expected response_type=code, a redirect_uri and an S256 code_challenge");
+  }
+
+  const hidden = Object.entries(query)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(String(value))}">`)
+    .join("");
+  res.send(`<!doctype html>
+<title>Mock identity provider</title>
+<body style="font-family: sans-serif; max-width: 360px; margin: 60px auto">
+  <h2>Mock identity provider</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" required value="member@example.com" style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" value="Mock Member" style="width: 100%"></label></p>
+    <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+    <button name="decision" value="allow">Sign in</button>
+    <button name="decision" value="deny">Cancel</button>
+  </form>
+</body>`);
+});
+
+app.post("/authorize", (req, res) => {
+  const { redirect_uri, state, nonce, code_challenge, decision, email, name } = req.body;
+  const target = new URL(redirect_uri);
+  if (state) target.searchParams.set("state", state);
+
+  if (decision !== "allow") {
+    target.searchParams.set("error", "access_denied");
+    return res.redirect(target.toString());
+  }
+
+  const code = crypto.randomBytes(16).toString("hex");
+  codes.set(code, {
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    expiresAt: Date.now() + 60 * 1000,
+    claims: {
+      // The same email always maps to the same subject, like a real directory account
+      sub: crypto.createHash("sha256").update(String(email).toLowerCase()).digest("hex").slice(0, 24),
+      email,
+      email_verified: req.body.email_verified === "on",
+      name: name || undefined,
+      preferred_username: String(email).split("@")[0],
+      ...(nonce ? { nonce } : {}),
+    },
+  });
+  target.searchParams.set("code", code);
+  res.redirect(target.toString());
+});
+
+app.post("/token", (req, res) => {
+  let clientId = req.body.client_id;
+  let clientSecret = req.body.client_secret;
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+  if (basic) {
+    const [id, secret] = Buffer.from(basic[1], "base64").toString().split(":").map(decodeURIComponent);
+    clientId = id;
+    clientSecret = secret;
+  }
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return res.status(401).json({ error: "invalid_client" });
+  }
+
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code);
+  if (req.body.grant_type !== "authorization_code" || !pending || pending.expiresAt < Date.now()) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+  const challenge = crypto.createHash("sha256").update(String(req.body.code_verifier || "")).digest("base64url");
+  if (pending.redirectUri !== req.body.redirect_uri || pending.codeChallenge !== challenge) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+
+  const idToken = jwt.sign(pending.claims, privateKey, {
+    algorithm: "RS256",
+    keyid: KEY_ID,
+    issuer: ISSUER,
+    audience: CLIENT_ID,
+    expiresIn: "5m",
+  });
+  res.json({ access_token: crypto.randomBytes(16).toString("hex"), token_type: "Bearer", expires_in: 300, id_token: idToken });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider running on ${ISSUER} (client_id "${CLIENT_ID}", client_secret "${CLIENT_SECRET}")`);
+});
@@ -7,9 +7,35 @@ import * as bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import multer from "multer";
 import fs from "fs";
+import crypto from "crypto";
+import twilio from "twilio";
+import QRCode from "qrcode";
 
 const db = new Database("jobs.db");
 const JWT_SECRET = process.env.JWT_SECRET || "ankur-secret-key";
+const JOB_LIFETIME_DAYS = parseInt(process.env.JOB_LIFETIME_DAYS || "30", 10);
+const JOB_SWEEP_INTERVAL_MS = 60 * 60 * 1000; // hourly
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10);
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
+const ACCESS_TOKEN_TTL = "15m";
+const REFRESH_TOKEN_TTL_DAYS = 30;
+const MFA_LOGIN_TTL_MINUTES = 5;
+const REQUIRE_ADMIN_2FA = process.env.REQUIRE_ADMIN_2FA === "true";
+const LOGIN_BACKOFF_AFTER = 3; // failures before delays start, per account
+const LOGIN_LOCKOUT_THRESHOLD = 10; // failures before a full lockout, per account
+const LOGIN_LOCKOUT_MINUTES = 15;
+const LOGIN_IP_MULTIPLIER = 5; // an IP may fail this many times more than a single account
+// Express "trust proxy" setting: a hop count, "true", or a list of proxy addresses/subnets. Needed behind a
+// reverse proxy so req.ip (used for sign-in throttling) is the client's address rather than the proxy's.
+const TRUST_PROXY = process.env.TRUST_PROXY?.trim() || "";
+const OTP_TTL_MINUTES = 10;
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_SEND_LIMIT = 3; // codes per phone per window
+const OTP_SEND_WINDOW_MINUTES = 15;
+const OIDC_LOGIN_TTL_MINUTES = 10; // time allowed at the identity provider before the state expires
+const SSO_EXCHANGE_TTL_MINUTES = 2;
 
 // Ensure uploads directory exists
 const __filename = fileURLToPath(import.meta.url);
@@ -71,6 +97,9 @@ db.exec(`
     link_type TEXT DEFAULT 'Other',
     posted_by TEXT NOT NULL,
     user_id INTEGER,
+    status TEXT DEFAULT 'open',
+    expires_at DATETIME,
+    archived_at DATETIME,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY(user_id) REFERENCES users(id)
   );
@@ -82,9 +111,6 @@ db.exec(`
     photo_url TEXT,
     contact_details TEXT,
     location TEXT,
-    skills TEXT,
-    experience TEXT,
-    education TEXT,
     resume_url TEXT,
     portfolio_url TEXT,
     linkedin_url TEXT,
@@ -92,6 +118,235 @@ db.exec(`
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY(user_id) REFERENCES users(id)
   );
+
+  CREATE TABLE IF NOT EXISTS applications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    cover_note TEXT,
+    resume_url TEXT NOT NULL,
+    status TEXT DEFAULT 'applied',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(job_id, user_id),
+    FOREIGN KEY(job_id) REFERENCES jobs(id),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS saved_jobs (
+    user_id INTEGER NOT NULL,
+    job_id INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY(user_id, job_id),
+    FOREIGN KEY(user_id) REFERENCES users(id),
+    FOREIGN KEY(job_id) REFERENCES jobs(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS saved_searches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    category TEXT,
+    experience TEXT,
+    search TEXT,
+    location TEXT,
+    new_match_count INTEGER DEFAULT 0,
+    last_matched_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    link TEXT,
+    is_read INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS allowed_email_domains (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    domain TEXT UNIQUE NOT NULL,
+    created_by INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(created_by) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS invites (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    code TEXT UNIQUE NOT NULL,
+    max_uses INTEGER NOT NULL DEFAULT 1,
+    uses INTEGER NOT NULL DEFAULT 0,
+    expires_at DATETIME,
+    revoked_at DATETIME,
+    created_by INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(created_by) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    refresh_token_hash TEXT UNIQUE NOT NULL,
+    previous_token_hash TEXT,
+    user_agent TEXT,
+    ip TEXT,
+    expires_at DATETIME NOT NULL,
+    revoked_at DATETIME,
+    last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS login_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    identifier TEXT NOT NULL,
+    user_id INTEGER,
+    ip TEXT,
+    user_agent TEXT,
+    reason TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS login_lockouts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    scope TEXT NOT NULL,
+    key TEXT NOT NULL,
+    label TEXT NOT NULL,
+    failures INTEGER NOT NULL DEFAULT 0,
+    last_failure_at DATETIME,
+    locked_until DATETIME,
+    UNIQUE(scope, key)
+  );
+
+  CREATE TABLE IF NOT EXISTS mfa_backup_codes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    code_hash TEXT NOT NULL,
+    used_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS phone_otps (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    phone TEXT NOT NULL,
+    purpose TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at DATETIME NOT NULL,
+    consumed_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS oidc_login_states (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    state_hash TEXT UNIQUE NOT NULL,
+    nonce TEXT NOT NULL,
+    code_verifier TEXT NOT NULL,
+    expires_at DATETIME NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS user_identities (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    issuer TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    email TEXT,
+    last_login_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(issuer, subject),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS auth_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    purpose TEXT NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    expires_at DATETIME NOT NULL,
+    used_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    actor_id INTEGER,
+    actor_username TEXT,
+    action TEXT NOT NULL,
+    target_type TEXT NOT NULL,
+    target_id TEXT,
+    target_label TEXT,
+    before_json TEXT,
+    after_json TEXT,
+    ip TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- The audit trail is append-only, even for admins with database access through the app
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+
+  CREATE TABLE IF NOT EXISTS application_status_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    application_id INTEGER NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    note TEXT,
+    changed_by INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(application_id) REFERENCES applications(id),
+    FOREIGN KEY(changed_by) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS skills (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    slug TEXT UNIQUE NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS profile_skills (
+    user_id INTEGER NOT NULL,
+    skill_id INTEGER NOT NULL,
+    PRIMARY KEY(user_id, skill_id),
+    FOREIGN KEY(user_id) REFERENCES users(id),
+    FOREIGN KEY(skill_id) REFERENCES skills(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS work_experiences (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    company TEXT,
+    start_date TEXT,
+    end_date TEXT,
+    description TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS education_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    institution TEXT NOT NULL,
+    degree TEXT,
+    field_of_study TEXT,
+    start_date TEXT,
+    end_date TEXT,
+    description TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
 `);
 
 // Migration: Add missing columns to users table if they don't exist
@@ -110,6 +365,29 @@ if (!columnNames.includes("is_public")) {
 if (!columnNames.includes("phone")) {
   db.exec("ALTER TABLE users ADD COLUMN phone TEXT");
 }
+if (!columnNames.includes("email_verified")) {
+  db.exec("ALTER TABLE users ADD COLUMN email_verified INTEGER DEFAULT 0");
+  // Accounts created before verification existed are trusted as-is
+  db.exec("UPDATE users SET email_verified = 1");
+}
+if (!columnNames.includes("phone_verified")) {
+  db.exec("ALTER TABLE users ADD COLUMN phone_verified INTEGER DEFAULT 0");
+}
+if (!columnNames.includes("deleted_at")) {
+  db.exec("ALTER TABLE users ADD COLUMN deleted_at DATETIME");
+}
+if (!columnNames.includes("must_change_password")) {
+  db.exec("ALTER TABLE users ADD COLUMN must_change_password INTEGER DEFAULT 0");
+}
+if (!columnNames.includes("totp_secret")) {
+  db.exec("ALTER TABLE users ADD COLUMN totp_secret TEXT");
+}
+if (!columnNames.includes("totp_enabled")) {
+  db.exec("ALTER TABLE users ADD COLUMN totp_enabled INTEGER DEFAULT 0");
+}
+if (!columnNames.includes("totp_last_step")) {
+  db.exec("ALTER TABLE users ADD COLUMN totp_last_step INTEGER");
+}
 
 // Migration for jobs table
 const jobColumns = db.prepare("PRAGMA table_info(jobs)").all() as any[];
@@ -120,178 +398,2303 @@ if (!jobColumnNames.includes("user_id")) {
 if (!jobColumnNames.includes("link_type")) {
   db.exec("ALTER TABLE jobs ADD COLUMN link_type TEXT DEFAULT 'Other'");
 }
+if (!jobColumnNames.includes("status")) {
+  db.exec("ALTER TABLE jobs ADD COLUMN status TEXT DEFAULT 'open'");
+}
+if (!jobColumnNames.includes("expires_at")) {
+  db.exec("ALTER TABLE jobs ADD COLUMN expires_at DATETIME");
+  // Give existing postings a full lifetime from now instead of archiving them all on upgrade
+  db.prepare("UPDATE jobs SET expires_at = datetime('now', ?)").run(`+${JOB_LIFETIME_DAYS} days`);
+}
+if (!jobColumnNames.includes("archived_at")) {
+  db.exec("ALTER TABLE jobs ADD COLUMN archived_at DATETIME");
+}
+if (!jobColumnNames.includes("deleted_at")) {
+  db.exec("ALTER TABLE jobs ADD COLUMN deleted_at DATETIME");
+}
 
-// Middleware to verify JWT
-const authenticateToken = (req: any, res: any, next: any) => {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
+// Skills are shared tags: "React", " react " and "REACT" all map to one row via the lowercased slug,
+// and the first spelling seen is kept as the display name
+const MAX_PROFILE_SKILLS = 30;
+const MAX_SKILL_LENGTH = 40;
 
-  if (!token) return res.status(401).json({ error: "Unauthorized" });
+const normalizeSkillName = (name: string) => name.trim().replace(/\s+/g, " ").slice(0, MAX_SKILL_LENGTH);
+const skillSlug = (name: string) => normalizeSkillName(name).toLowerCase();
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) return res.status(403).json({ error: "Forbidden" });
-    
-    // Check if user is suspended
-    const dbUser: any = db.prepare("SELECT is_suspended FROM users WHERE id = ?").get(user.id);
-    if (dbUser && dbUser.is_suspended) {
-      return res.status(403).json({ error: "Account suspended. Please contact support." });
+const setProfileSkills = (userId: number | string, names: string[]) => {
+  const unique = new Map<string, string>();
+  for (const name of names) {
+    const normalized = normalizeSkillName(String(name));
+    if (normalized && !unique.has(skillSlug(normalized))) unique.set(skillSlug(normalized), normalized);
+  }
+  db.transaction(() => {
+    db.prepare("DELETE FROM profile_skills WHERE user_id = ?").run(userId);
+    for (const [slug, name] of [...unique].slice(0, MAX_PROFILE_SKILLS)) {
+      db.prepare("INSERT OR IGNORE INTO skills (name, slug) VALUES (?, ?)").run(name, slug);
+      db.prepare("INSERT INTO profile_skills (user_id, skill_id) SELECT ?, id FROM skills WHERE slug = ?").run(userId, slug);
     }
+  })();
+};
 
-    req.user = user;
-    next();
+// Migration: profiles used to keep skills, experience and education as free text. Each one becomes
+// structured data (skills split into tags, the rest a first entry keeping the full text) and the columns are dropped.
+const profileColumnNames = (db.prepare("PRAGMA table_info(profiles)").all() as any[]).map(c => c.name);
+if (profileColumnNames.includes("skills")) {
+  const firstLine = (text: string) => text.trim().split("\n")[0].trim().slice(0, 120);
+  db.transaction(() => {
+    const legacyProfiles = db.prepare("SELECT user_id, skills, experience, education FROM profiles").all() as any[];
+    for (const legacy of legacyProfiles) {
+      if (legacy.skills?.trim()) setProfileSkills(legacy.user_id, legacy.skills.split(/[,;\n]/));
+      if (legacy.experience?.trim()) {
+        db.prepare("INSERT INTO work_experiences (user_id, title, description) VALUES (?, ?, ?)")
+          .run(legacy.user_id, firstLine(legacy.experience), legacy.experience.trim());
+      }
+      if (legacy.education?.trim()) {
+        db.prepare("INSERT INTO education_entries (user_id, institution, description) VALUES (?, ?, ?)")
+          .run(legacy.user_id, firstLine(legacy.education), legacy.education.trim());
+      }
+    }
+    db.exec("ALTER TABLE profiles DROP COLUMN skills");
+    db.exec("ALTER TABLE profiles DROP COLUMN experience");
+    db.exec("ALTER TABLE profiles DROP COLUMN education");
+  })();
+}
+
+// Full-text index over jobs, kept in sync with triggers
+const hasJobsFts = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'jobs_fts'").get();
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS jobs_fts USING fts5(
+    title, company, requirements, location, category,
+    content='jobs', content_rowid='id', tokenize='porter unicode61'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS jobs_fts_insert AFTER INSERT ON jobs BEGIN
+    INSERT INTO jobs_fts(rowid, title, company, requirements, location, category)
+    VALUES (new.id, new.title, new.company, new.requirements, new.location, new.category);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS jobs_fts_delete AFTER DELETE ON jobs BEGIN
+    INSERT INTO jobs_fts(jobs_fts, rowid, title, company, requirements, location, category)
+    VALUES ('delete', old.id, old.title, old.company, old.requirements, old.location, old.category);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS jobs_fts_update AFTER UPDATE OF title, company, requirements, location, category ON jobs BEGIN
+    INSERT INTO jobs_fts(jobs_fts, rowid, title, company, requirements, location, category)
+    VALUES ('delete', old.id, old.title, old.company, old.requirements, old.location, old.category);
+    INSERT INTO jobs_fts(rowid, title, company, requirements, location, category)
+    VALUES (new.id, new.title, new.company, new.requirements, new.location, new.category);
+  END;
+`);
+if (!hasJobsFts) {
+  // Index jobs that were posted before the FTS table existed
+  db.exec("INSERT INTO jobs_fts(jobs_fts) VALUES ('rebuild')");
+}
+
+// Turns free text into an FTS5 query: every word must match (prefix match), in any indexed column
+const buildFtsQuery = (text: string) => {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return terms.map(term => `"${term}"*`).join(" ");
+};
+
+// Application pipeline: the stages a candidate can move to from each stage.
+// Only the applicant can withdraw; every other move is made by the poster.
+const APPLICATION_TRANSITIONS: Record<string, string[]> = {
+  applied: ["screening", "interview", "rejected", "withdrawn"],
+  screening: ["interview", "offer", "rejected", "withdrawn"],
+  interview: ["offer", "rejected", "withdrawn"],
+  offer: ["rejected", "withdrawn"],
+  rejected: [],
+  withdrawn: [],
+};
+
+const nextStatusesFor = (status: string, isApplicant: boolean) =>
+  (APPLICATION_TRANSITIONS[status] || []).filter(next => (next === "withdrawn") === isApplicant);
+
+const JOB_STATUSES = ["open", "closed", "filled"];
+
+// Deleting a user or job only sets deleted_at, which hides it everywhere. It stays in the admin trash for
+// TRASH_RETENTION_DAYS and can be restored until purgeTrash removes it for good.
+const softDeleteJob = (jobId: number | string) => {
+  db.prepare("UPDATE jobs SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL").run(jobId);
+};
+
+// The user's postings share their deleted_at, so restoring the user brings back exactly those postings
+const softDeleteUser = (userId: number | string) => {
+  db.transaction(() => {
+    const { now } = db.prepare("SELECT CURRENT_TIMESTAMP AS now").get() as any;
+    db.prepare("UPDATE users SET deleted_at = ? WHERE id = ?").run(now, userId);
+    db.prepare("UPDATE jobs SET deleted_at = ? WHERE user_id = ? AND deleted_at IS NULL").run(now, userId);
+    db.prepare("UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL").run(userId);
+  })();
+};
+
+const purgeJob = (jobId: number | string) => {
+  db.transaction(() => {
+    db.prepare("DELETE FROM application_status_history WHERE application_id IN (SELECT id FROM applications WHERE job_id = ?)").run(jobId);
+    db.prepare("DELETE FROM applications WHERE job_id = ?").run(jobId);
+    db.prepare("DELETE FROM saved_jobs WHERE job_id = ?").run(jobId);
+    db.prepare("DELETE FROM jobs WHERE id = ?").run(jobId);
+  })();
+};
+
+const purgeUser = (userId: number | string) => {
+  db.transaction(() => {
+    db.prepare("DELETE FROM profiles WHERE user_id = ?").run(userId);
+    db.prepare(`
+      DELETE FROM application_status_history WHERE application_id IN (
+        SELECT id FROM applications WHERE user_id = ? OR job_id IN (SELECT id FROM jobs WHERE user_id = ?)
+      )
+    `).run(userId, userId);
+    db.prepare("DELETE FROM applications WHERE user_id = ? OR job_id IN (SELECT id FROM jobs WHERE user_id = ?)").run(userId, userId);
+    db.prepare("DELETE FROM saved_jobs WHERE user_id = ? OR job_id IN (SELECT id FROM jobs WHERE user_id = ?)").run(userId, userId);
+    db.prepare("DELETE FROM saved_searches WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM notifications WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM auth_tokens WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM phone_otps WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM sessions WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM mfa_backup_codes WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM user_identities WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM profile_skills WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM work_experiences WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM education_entries WHERE user_id = ?").run(userId);
+    db.prepare("UPDATE invites SET created_by = NULL WHERE created_by = ?").run(userId);
+    db.prepare("UPDATE allowed_email_domains SET created_by = NULL WHERE created_by = ?").run(userId);
+    db.prepare("DELETE FROM jobs WHERE user_id = ?").run(userId);
+    db.prepare("DELETE FROM users WHERE id = ?").run(userId);
+  })();
+};
+
+const purgeTrash = () => {
+  const cutoff = `-${TRASH_RETENTION_DAYS} days`;
+  const users = db.prepare("SELECT id, username FROM users WHERE deleted_at <= datetime('now', ?)").all(cutoff) as any[];
+  for (const user of users) {
+    purgeUser(user.id);
+    recordAudit(null, "user.purge", { type: "user", id: user.id, label: user.username });
+  }
+  const jobs = db.prepare("SELECT id, title FROM jobs WHERE deleted_at <= datetime('now', ?)").all(cutoff) as any[];
+  for (const job of jobs) {
+    purgeJob(job.id);
+    recordAudit(null, "job.purge", { type: "job", id: job.id, label: job.title });
+  }
+  if (users.length || jobs.length) {
+    console.log(`Purged ${users.length} user(s) and ${jobs.length} job(s) from the trash`);
+  }
+};
+
+// Validates an optional poster-supplied expiry; returns an error message or null.
+// Parsed by SQLite itself, since the job queries store it with datetime() and would otherwise fall back silently.
+const validateExpiry = (expiresAt: any) => {
+  if (!expiresAt) return null;
+  if (typeof expiresAt !== "string") return "Invalid expiry date";
+  const check: any = db.prepare("SELECT datetime(?) IS NOT NULL AS valid, datetime(?) > datetime('now') AS future").get(expiresAt, expiresAt);
+  if (!check.valid) return "Invalid expiry date";
+  if (!check.future) return "Expiry date must be in the future";
+  return null;
+};
+
+
+const archiveExpiredJobs = () => {
+  const info = db.prepare(`
+    UPDATE jobs SET archived_at = CURRENT_TIMESTAMP
+    WHERE archived_at IS NULL AND expires_at IS NOT NULL AND expires_at <= datetime('now')
+  `).run();
+  if (info.changes > 0) {
+    console.log(`Archived ${info.changes} expired job(s)`);
+  }
+};
+
+// Mail transport for account emails. MAIL_TRANSPORT=file writes each message to ./mail for local
+// testing; anything else prints to the console. A real provider only needs to implement MailTransport.
+interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface MailTransport {
+  send(mail: MailMessage): Promise<void>;
+}
+
+const consoleMailTransport: MailTransport = {
+  async send(mail) {
+    console.log(`[mail] to ${mail.to}: ${mail.subject}\n${mail.text}`);
+  },
+};
+
+const createFileMailTransport = (dir: string): MailTransport => ({
+  async send(mail) {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const file = path.join(dir, `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.txt`);
+    await fs.promises.writeFile(file, `To: ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}\n`);
+  },
+});
+
+const mailTransport: MailTransport = process.env.MAIL_TRANSPORT === "file"
+  ? createFileMailTransport(path.join(__dirname, "mail"))
+  : consoleMailTransport;
+
+const sendMail = (mail: MailMessage) => {
+  mailTransport.send(mail).catch(error => console.error("Mail transport error:", error));
+};
+
+// Single-use tokens for emailed links. Only a SHA-256 hash is stored, so a leaked database can't be replayed.
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+const issueAuthToken = (userId: number, purpose: string, ttlMinutes: number) => {
+  const token = crypto.randomBytes(32).toString("hex");
+  db.transaction(() => {
+    // Only the newest token of a purpose stays valid
+    db.prepare("UPDATE auth_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND purpose = ? AND used_at IS NULL")
+      .run(userId, purpose);
+    db.prepare("INSERT INTO auth_tokens (user_id, purpose, token_hash, expires_at) VALUES (?, ?, ?, datetime('now', ?))")
+      .run(userId, purpose, hashToken(token), `+${ttlMinutes} minutes`);
+  })();
+  return token;
+};
+
+// Returns the token's user id without using it up, or null if it is unknown, expired or already used
+const peekAuthToken = (token: string, purpose: string): number | null => {
+  const row: any = db.prepare(`
+    SELECT user_id FROM auth_tokens
+    WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > datetime('now')
+  `).get(hashToken(token), purpose);
+  return row ? row.user_id : null;
+};
+
+// Marks the token used and returns its user id, or null if it is unknown, expired or already used
+const consumeAuthToken = (token: string, purpose: string): number | null => {
+  const row: any = db.prepare(`
+    SELECT id, user_id FROM auth_tokens
+    WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > datetime('now')
+  `).get(hashToken(token), purpose);
+  if (!row) return null;
+
+  const info = db.prepare("UPDATE auth_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL").run(row.id);
+  return info.changes ? row.user_id : null;
+};
+
+// Sessions pair a short-lived access JWT (carrying the session id as `sid`) with a refresh token that is
+// stored hashed and rotated on every use. Revoking the session row cuts off both immediately.
+const signAccessToken = (user: any, sessionId: number | bigint) =>
+  jwt.sign({ id: user.id, username: user.username, email: user.email, role: user.role, sid: Number(sessionId) }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+const createSession = (user: any, req: any) => {
+  const refreshToken = crypto.randomBytes(32).toString("hex");
+  const info = db.prepare(`
+    INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip, expires_at) VALUES (?, ?, ?, ?, datetime('now', ?))
+  `).run(user.id, hashToken(refreshToken), req.headers["user-agent"] || null, req.ip || null, `+${REFRESH_TOKEN_TTL_DAYS} days`);
+  return { token: signAccessToken(user, info.lastInsertRowid), refreshToken };
+};
+
+// Tokens issued before sessions existed carry no sid and are no longer accepted
+const isSessionActive = (payload: any) => {
+  if (!payload?.sid) return false;
+  const session: any = db.prepare("SELECT revoked_at FROM sessions WHERE id = ? AND user_id = ?").get(payload.sid, payload.id);
+  return !!session && !session.revoked_at;
+};
+
+// Password policy for every password a user or admin sets. PASSWORD_MIN_LENGTH and PASSWORD_REQUIRED_CLASSES
+// (comma-separated: letter, lowercase, uppercase, number, symbol) tune it; anything in common-passwords.txt
+// is always refused.
+const PASSWORD_CLASS_RULES: Record<string, { pattern: RegExp; message: string }> = {
+  letter: { pattern: /[A-Za-z]/, message: "Must include a letter" },
+  lowercase: { pattern: /[a-z]/, message: "Must include a lowercase letter" },
+  uppercase: { pattern: /[A-Z]/, message: "Must include an uppercase letter" },
+  number: { pattern: /\d/, message: "Must include a number" },
+  symbol: { pattern: /[^A-Za-z0-9]/, message: "Must include a symbol" },
+};
+
+const PASSWORD_POLICY = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || "8") || 8,
+  maxLength: 72, // bcrypt ignores everything past 72 bytes
+  requiredClasses: (process.env.PASSWORD_REQUIRED_CLASSES ?? "letter,number")
+    .split(",").map(c => c.trim().toLowerCase()).filter(c => c in PASSWORD_CLASS_RULES),
+};
+
+const loadCommonPasswords = () => {
+  try {
+    const lines = fs.readFileSync(path.join(__dirname, "common-passwords.txt"), "utf8").split(/\r?\n/);
+    return new Set(lines.map(line => line.trim().toLowerCase()).filter(line => line && !line.startsWith("#")));
+  } catch {
+    console.warn("common-passwords.txt not found; common password check disabled");
+    return new Set<string>();
+  }
+};
+
+const COMMON_PASSWORDS = loadCommonPasswords();
+
+// Returns every rule the password breaks, empty when it passes
+const passwordPolicyErrors = (password: string, context: { username?: string; email?: string } = {}) => {
+  const value = String(password || "");
+  const errors: string[] = [];
+  if (value.length < PASSWORD_POLICY.minLength) errors.push(`Must be at least ${PASSWORD_POLICY.minLength} characters`);
+  if (Buffer.byteLength(value) > PASSWORD_POLICY.maxLength) errors.push(`Must be at most ${PASSWORD_POLICY.maxLength} characters`);
+  for (const requiredClass of PASSWORD_POLICY.requiredClasses) {
+    const rule = PASSWORD_CLASS_RULES[requiredClass];
+    if (!rule.pattern.test(value)) errors.push(rule.message);
+  }
+  if (COMMON_PASSWORDS.has(value.toLowerCase())) errors.push("Must not be a commonly used password");
+
+  const personal = [context.username, context.email?.split("@")[0]]
+    .filter((part): part is string => !!part && part.length >= 3)
+    .map(part => part.toLowerCase());
+  if (personal.some(part => value.toLowerCase().includes(part))) errors.push("Must not contain your username or email");
+  return errors;
+};
+
+// Sends the policy failures as { error, details } and returns true when the password is rejected
+const rejectWeakPassword = (res: any, password: string, context: { username?: string; email?: string } = {}) => {
+  const details = passwordPolicyErrors(password, context);
+  if (details.length === 0) return false;
+  res.status(400).json({ error: "Password doesn't meet the requirements", details });
+  return true;
+};
+
+// Brute-force protection for sign-in. Failures are counted per account (or per typed identifier when it
+// matches nobody) and per IP. Past LOGIN_BACKOFF_AFTER failures each new one doubles the wait before the
+// next attempt; at LOGIN_LOCKOUT_THRESHOLD the key is locked for LOGIN_LOCKOUT_MINUTES. Counters go stale
+// after a quiet lockout window, and an account's counter resets on a successful sign-in.
+const loginThrottleKeys = (identifier: string, userId: number | null, ip: string) => [
+  { scope: "account", key: userId ? `user:${userId}` : `name:${identifier.trim().toLowerCase()}`, label: identifier, multiplier: 1 },
+  { scope: "ip", key: ip, label: ip, multiplier: LOGIN_IP_MULTIPLIER },
+];
+
+// Seconds until another attempt is allowed, or 0
+const loginRetryAfter = (identifier: string, userId: number | null, ip: string) => {
+  let wait = 0;
+  for (const { scope, key } of loginThrottleKeys(identifier, userId, ip)) {
+    const row: any = db.prepare(`
+      SELECT CAST(strftime('%s', locked_until) - strftime('%s', 'now') AS INTEGER) AS seconds
+      FROM login_lockouts WHERE scope = ? AND key = ? AND locked_until > datetime('now')
+    `).get(scope, key);
+    if (row) wait = Math.max(wait, row.seconds, 1);
+  }
+  return wait;
+};
+
+const recordLoginFailure = (identifier: string, userId: number | null, req: any, reason: string) => {
+  const ip = req.ip || "unknown";
+  db.prepare("INSERT INTO login_attempts (identifier, user_id, ip, user_agent, reason) VALUES (?, ?, ?, ?, ?)")
+    .run(identifier, userId, ip, req.headers["user-agent"] || null, reason);
+
+  for (const { scope, key, label, multiplier } of loginThrottleKeys(identifier, userId, ip)) {
+    db.prepare(`
+      INSERT INTO login_lockouts (scope, key, label, failures, last_failure_at) VALUES (?, ?, ?, 1, CURRENT_TIMESTAMP)
+      ON CONFLICT(scope, key) DO UPDATE SET
+        failures = CASE WHEN last_failure_at < datetime('now', ?) THEN 1 ELSE failures + 1 END,
+        label = excluded.label,
+        last_failure_at = CURRENT_TIMESTAMP
+    `).run(scope, key, label, `-${LOGIN_LOCKOUT_MINUTES} minutes`);
+
+    const { failures }: any = db.prepare("SELECT failures FROM login_lockouts WHERE scope = ? AND key = ?").get(scope, key);
+    const lockoutAt = LOGIN_LOCKOUT_THRESHOLD * multiplier;
+    const backoffAfter = LOGIN_BACKOFF_AFTER * multiplier;
+    if (failures < backoffAfter) continue;
+
+    const seconds = failures >= lockoutAt
+      ? LOGIN_LOCKOUT_MINUTES * 60
+      : Math.min(2 ** (failures - backoffAfter), LOGIN_LOCKOUT_MINUTES * 60);
+    db.prepare("UPDATE login_lockouts SET locked_until = datetime('now', ?) WHERE scope = ? AND key = ?")
+      .run(`+${seconds} seconds`, scope, key);
+
+    if (scope === "account" && userId && failures === lockoutAt) {
+      createNotification(userId, "security", "Your account was temporarily locked",
+        `Sign-in was blocked for ${LOGIN_LOCKOUT_MINUTES} minutes after repeated failed attempts. Reset your password if this wasn't you.`);
+    }
+  }
+};
+
+const clearAccountLoginFailures = (userId: number) => {
+  db.prepare("DELETE FROM login_lockouts WHERE scope = 'account' AND key = ?").run(`user:${userId}`);
+};
+
+const sendTooManyAttempts = (res: any, retryAfter: number) => {
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    error: `Too many failed sign-in attempts. Try again in ${retryAfter >= 120 ? `${Math.ceil(retryAfter / 60)} minutes` : `${retryAfter} second${retryAfter === 1 ? "" : "s"}`}.`,
+    retry_after: retryAfter
   });
 };
 
-const authenticateAdmin = (req: any, res: any, next: any) => {
-  authenticateToken(req, res, () => {
-    const user: any = db.prepare("SELECT role FROM users WHERE id = ?").get(req.user.id);
-    if (user && user.role === 'admin') {
-      next();
-    } else {
-      res.status(403).json({ error: "Admin access required" });
+// What each role may do. Any role with permissions counts as staff and gets the admin panel, along with the
+// admin sign-in safeguards: a forced first password change and, with REQUIRE_ADMIN_2FA, an authenticator app.
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: [
+    "admin.panel", "users.view", "users.manage", "users.roles", "profiles.moderate", "jobs.moderate",
+    "applications.view_all", "candidates.search", "registration.manage", "security.manage", "audit.view",
+  ],
+  moderator: ["admin.panel", "users.view", "profiles.moderate", "jobs.moderate"],
+  recruiter: ["admin.panel", "candidates.search"],
+  user: [],
+};
+const ROLES = Object.keys(ROLE_PERMISSIONS);
+
+const permissionsFor = (role: string) => ROLE_PERMISSIONS[role] || [];
+const hasPermission = (role: string, permission: string) => permissionsFor(role).includes(permission);
+const isStaffRole = (role: string) => permissionsFor(role).length > 0;
+// Staff may only moderate accounts whose role grants no more permissions than their own
+const outranks = (role: string, otherRole: string) => permissionsFor(role).length > permissionsFor(otherRole).length;
+
+// The user object returned to the client after any successful sign-in
+const authUserResponse = (user: any) => ({
+  id: user.id,
+  username: user.username,
+  email: user.email,
+  is_public: user.is_public,
+  role: user.role,
+  email_verified: user.email_verified,
+  phone_verified: user.phone_verified,
+  totp_enabled: user.totp_enabled,
+  must_change_password: user.must_change_password,
+  permissions: permissionsFor(user.role),
+});
+
+const revokeUserSessions = (userId: number | string, exceptSessionId?: number) => {
+  db.prepare("UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL AND id != ?")
+    .run(userId, exceptSessionId ?? 0);
+};
+
+// TOTP (RFC 6238) two-factor auth: 30-second steps, 6 digits, HMAC-SHA1, as expected by authenticator apps
+const TOTP_STEP_SECONDS = 30;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const totpAt = (secret: string, step: number) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).toString().padStart(6, "0");
+};
+
+// Allows one step of clock drift either way. Returns the matched step, which must be newer than the last
+// one used so a code can't be replayed within its window.
+const matchTotpStep = (secret: string, code: string, lastStep: number | null) => {
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    if (lastStep !== null && step <= lastStep) continue;
+    if (totpAt(secret, step) === code) return step;
+  }
+  return null;
+};
+
+const normalizeBackupCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const generateBackupCodes = (userId: number) => {
+  const codes = Array.from({ length: 10 }, () => crypto.randomBytes(4).toString("hex").replace(/^(.{4})/, "$1-"));
+  db.transaction(() => {
+    db.prepare("DELETE FROM mfa_backup_codes WHERE user_id = ?").run(userId);
+    const insert = db.prepare("INSERT INTO mfa_backup_codes (user_id, code_hash) VALUES (?, ?)");
+    for (const code of codes) insert.run(userId, hashToken(normalizeBackupCode(code)));
+  })();
+  return codes;
+};
+
+// Accepts a current authenticator code or an unused backup code, using either up on success
+const verifySecondFactor = (user: any, rawCode: string) => {
+  const code = String(rawCode || "").replace(/\s/g, "");
+  if (!user.totp_secret || !code) return false;
+
+  if (/^\d{6}$/.test(code)) {
+    const step = matchTotpStep(user.totp_secret, code, user.totp_last_step);
+    if (step === null) return false;
+    db.prepare("UPDATE users SET totp_last_step = ? WHERE id = ?").run(step, user.id);
+    return true;
+  }
+
+  const backup: any = db.prepare("SELECT id FROM mfa_backup_codes WHERE user_id = ? AND code_hash = ? AND used_at IS NULL")
+    .get(user.id, hashToken(normalizeBackupCode(code)));
+  if (!backup) return false;
+  db.prepare("UPDATE mfa_backup_codes SET used_at = CURRENT_TIMESTAMP WHERE id = ?").run(backup.id);
+  return true;
+};
+
+// Sign-up is limited to allow-listed email domains or holders of a valid invite code
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+const normalizeDomain = (domain: string) => String(domain || "").trim().toLowerCase().replace(/^@/, "");
+
+const isAllowedEmailDomain = (email: string) => {
+  const domain = normalizeDomain(email.split("@").pop() || "");
+  return !!db.prepare("SELECT 1 FROM allowed_email_domains WHERE domain = ?").get(domain);
+};
+
+// Returns why an invite can't be used, or null if it is still redeemable
+const inviteError = (invite: any) => {
+  if (!invite) return "This invite code is not valid";
+  if (invite.revoked_at) return "This invite has been revoked";
+  if (invite.expires_at && new Date(invite.expires_at.replace(" ", "T") + "Z") <= new Date()) return "This invite has expired";
+  if (invite.uses >= invite.max_uses) return "This invite has already been used";
+  return null;
+};
+
+const sendVerificationEmail = (user: { id: number; username: string; email: string }) => {
+  const token = issueAuthToken(user.id, "verify_email", EMAIL_VERIFICATION_TTL_MINUTES);
+  sendMail({
+    to: user.email,
+    subject: "Verify your ANKUR JOBS email",
+    text: `Hi ${user.username},\n\nConfirm your email address to start posting jobs and applying:\n${APP_URL}/?verify_token=${token}\n\nThis link expires in 24 hours.`,
+  });
+};
+
+// SMS provider for phone codes. SMS_PROVIDER=twilio sends real texts with the TWILIO_* credentials;
+// anything else appends messages to logs/sms.log so codes can be read during local dev and tests.
+interface SmsProvider {
+  send(to: string, body: string): Promise<void>;
+}
+
+const createTwilioSmsProvider = (accountSid: string, authToken: string, from: string): SmsProvider => {
+  const client = twilio(accountSid, authToken);
+  return {
+    async send(to, body) {
+      await client.messages.create({ to, from, body });
+    },
+  };
+};
+
+const createLogSmsProvider = (file: string): SmsProvider => ({
+  async send(to, body) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.appendFile(file, `${new Date().toISOString()} to ${to}: ${body}\n`);
+  },
+});
+
+const smsProvider: SmsProvider = process.env.SMS_PROVIDER === "twilio"
+  && process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_FROM_NUMBER
+  ? createTwilioSmsProvider(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN, process.env.TWILIO_FROM_NUMBER)
+  : createLogSmsProvider(path.join(__dirname, "logs", "sms.log"));
+
+// Phone numbers are stored in E.164 form (+919876543210) so lookups for OTP login match exactly
+const normalizePhone = (phone: string) => {
+  const cleaned = String(phone || "").replace(/[\s\-().]/g, "");
+  return /^\+[1-9]\d{7,14}$/.test(cleaned) ? cleaned : null;
+};
+
+// Codes are keyed to the phone so a hash can't be replayed against another number
+const hashOtp = (phone: string, code: string) => crypto.createHmac("sha256", JWT_SECRET).update(`${phone}:${code}`).digest("hex");
+
+// Sends a fresh 6-digit code, superseding earlier ones. Returns false when the phone hit the send limit.
+const sendPhoneOtp = async (userId: number, phone: string, purpose: "verify_phone" | "login") => {
+  const recent: any = db.prepare(`
+    SELECT COUNT(*) as count FROM phone_otps WHERE phone = ? AND created_at > datetime('now', ?)
+  `).get(phone, `-${OTP_SEND_WINDOW_MINUTES} minutes`);
+  if (recent.count >= OTP_SEND_LIMIT) return false;
+
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, "0");
+  db.transaction(() => {
+    db.prepare("UPDATE phone_otps SET consumed_at = CURRENT_TIMESTAMP WHERE phone = ? AND purpose = ? AND consumed_at IS NULL")
+      .run(phone, purpose);
+    db.prepare(`
+      INSERT INTO phone_otps (user_id, phone, purpose, code_hash, expires_at) VALUES (?, ?, ?, ?, datetime('now', ?))
+    `).run(userId, phone, purpose, hashOtp(phone, code), `+${OTP_TTL_MINUTES} minutes`);
+  })();
+  await smsProvider.send(phone, `Your ANKUR JOBS code is ${code}. It expires in ${OTP_TTL_MINUTES} minutes.`);
+  return true;
+};
+
+// Checks a code against the latest one sent; wrong guesses count towards OTP_MAX_ATTEMPTS
+const checkPhoneOtp = (phone: string, purpose: string, code: string): { userId?: number; error?: string } => {
+  const otp: any = db.prepare(`
+    SELECT * FROM phone_otps
+    WHERE phone = ? AND purpose = ? AND consumed_at IS NULL AND expires_at > datetime('now')
+    ORDER BY id DESC LIMIT 1
+  `).get(phone, purpose);
+  if (!otp) return { error: "Code expired or not found. Request a new one." };
+  if (otp.attempts >= OTP_MAX_ATTEMPTS) return { error: "Too many incorrect attempts. Request a new code." };
+
+  if (otp.code_hash !== hashOtp(phone, String(code || "").trim())) {
+    db.prepare("UPDATE phone_otps SET attempts = attempts + 1 WHERE id = ?").run(otp.id);
+    const left = OTP_MAX_ATTEMPTS - otp.attempts - 1;
+    return { error: left > 0 ? `Incorrect code. ${left} attempt${left === 1 ? "" : "s"} left.` : "Too many incorrect attempts. Request a new code." };
+  }
+
+  db.prepare("UPDATE phone_otps SET consumed_at = CURRENT_TIMESTAMP WHERE id = ?").run(otp.id);
+  return { userId: otp.user_id };
+};
+
+// OpenID Connect single sign-on with the company identity provider (authorization code flow with PKCE).
+// Enabled when OIDC_ISSUER and OIDC_CLIENT_ID are set; the provider must redirect back to /api/auth/oidc/callback.
+const OIDC_CONFIG = process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID
+  ? {
+      issuer: process.env.OIDC_ISSUER.replace(/\/+$/, ""),
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET || "",
+      name: process.env.OIDC_PROVIDER_NAME || "Company SSO",
+      scopes: process.env.OIDC_SCOPES || "openid email profile",
+      redirectUri: `${APP_URL}/api/auth/oidc/callback`,
+      createUsers: process.env.OIDC_CREATE_USERS !== "false",
+    }
+  : null;
+
+let oidcDiscovery: Promise<any> | null = null;
+const getOidcDiscovery = () => {
+  if (!oidcDiscovery) {
+    oidcDiscovery = fetch(`${OIDC_CONFIG!.issuer}/.well-known/openid-configuration`).then(async response => {
+      if (!response.ok) throw new Error(`OIDC discovery failed with status ${response.status}`);
+      return response.json();
+    });
+    // Try again on the next sign-in if the provider was unreachable
+    oidcDiscovery.catch(() => { oidcDiscovery = null; });
+  }
+  return oidcDiscovery;
+};
+
+// Signing keys by kid. An unknown kid triggers one refetch, since providers rotate keys.
+let oidcSigningKeys = new Map<string, crypto.KeyObject>();
+const getOidcSigningKey = async (kid?: string) => {
+  const lookup = () => kid ? oidcSigningKeys.get(kid) : (oidcSigningKeys.size === 1 ? [...oidcSigningKeys.values()][0] : undefined);
+  if (lookup()) return lookup()!;
+
+  const discovery = await getOidcDiscovery();
+  const response = await fetch(discovery.jwks_uri);
+  if (!response.ok) throw new Error(`OIDC key fetch failed with status ${response.status}`);
+  const { keys } = await response.json() as { keys: any[] };
+  oidcSigningKeys = new Map(keys
+    .filter(key => key.kty === "RSA" && key.use !== "enc")
+    .map(key => [key.kid || "", crypto.createPublicKey({ key, format: "jwk" })]));
+
+  const key = lookup();
+  if (!key) throw new Error("No matching OIDC signing key");
+  return key;
+};
+
+const exchangeOidcCode = async (code: string, codeVerifier: string) => {
+  const discovery = await getOidcDiscovery();
+  const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+  if (OIDC_CONFIG!.clientSecret) {
+    const credentials = `${encodeURIComponent(OIDC_CONFIG!.clientId)}:${encodeURIComponent(OIDC_CONFIG!.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+  const response = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers,
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: OIDC_CONFIG!.redirectUri,
+      client_id: OIDC_CONFIG!.clientId,
+      code_verifier: codeVerifier,
+    }),
+  });
+  if (!response.ok) throw new Error(`OIDC token exchange failed with status ${response.status}`);
+  const tokens: any = await response.json();
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded) throw new Error("OIDC response had no ID token");
+  const key = await getOidcSigningKey(decoded.header.kid);
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ["RS256"],
+    issuer: discovery.issuer,
+    audience: OIDC_CONFIG!.clientId,
+  }) as jwt.JwtPayload;
+  return claims;
+};
+
+// Resolves the ID token to a local account: a previously linked identity first, then an existing user with the
+// same verified email, then (unless OIDC_CREATE_USERS=false) a new account. Email-domain and invite rules for
+// sign-up don't apply here; being in the company directory is the admission check.
+const findOrLinkOidcUser = async (claims: jwt.JwtPayload): Promise<{ user?: any; error?: string }> => {
+  const issuer = OIDC_CONFIG!.issuer;
+  const identity: any = db.prepare("SELECT * FROM user_identities WHERE issuer = ? AND subject = ?").get(issuer, claims.sub);
+  if (identity) {
+    db.prepare("UPDATE user_identities SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?").run(identity.id);
+    const linked: any = db.prepare("SELECT * FROM users WHERE id = ?").get(identity.user_id);
+    return linked.deleted_at ? { error: "This account has been deleted" } : { user: linked };
+  }
+
+  const email = String(claims.email || "").trim().toLowerCase();
+  if (!email || (claims.email_verified !== true && claims.email_verified !== "true")) {
+    return { error: "Your identity provider didn't share a verified email address" };
+  }
+
+  const existing: any = db.prepare("SELECT * FROM users WHERE lower(email) = ?").get(email);
+  if (existing?.deleted_at) return { error: "This account has been deleted" };
+  if (existing) {
+    // Anyone can register with an address they don't own, so only verified accounts are linked
+    if (!existing.email_verified) {
+      return { error: "An account with this email exists but hasn't been verified yet. Sign in with your password and verify your email first." };
+    }
+    db.prepare("INSERT INTO user_identities (user_id, issuer, subject, email) VALUES (?, ?, ?, ?)").run(existing.id, issuer, claims.sub, email);
+    return { user: existing };
+  }
+  if (!OIDC_CONFIG!.createUsers) {
+    return { error: `No account uses ${email}. Ask an admin for an invite.` };
+  }
+
+  // SSO-only accounts get an unguessable password; "Forgot password" can set a real one later
+  const hashedPassword = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+  const base = String(claims.preferred_username || email.split("@")[0]).replace(/[^a-zA-Z0-9_.-]/g, "").slice(0, 30) || "member";
+  const userId = db.transaction(() => {
+    let username = base;
+    for (let n = 2; db.prepare("SELECT 1 FROM users WHERE username = ?").get(username); n++) username = `${base}${n}`;
+    const info = db.prepare("INSERT INTO users (username, email, password, email_verified) VALUES (?, ?, ?, 1)")
+      .run(username, email, hashedPassword);
+    db.prepare("INSERT INTO profiles (user_id, name) VALUES (?, ?)").run(info.lastInsertRowid, claims.name || username);
+    db.prepare("INSERT INTO user_identities (user_id, issuer, subject, email) VALUES (?, ?, ?, ?)").run(info.lastInsertRowid, issuer, claims.sub, email);
+    return info.lastInsertRowid;
+  })();
+  return { user: db.prepare("SELECT * FROM users WHERE id = ?").get(userId) };
+};
+
+// Outbound notifier for alerts that leave the portal. NOTIFIER=email sends them through the mail transport,
+// NOTIFIER=webhook POSTs each message as JSON to NOTIFIER_WEBHOOK_URL (e.g. a chat bridge); anything else
+// logs to the console for local dev.
+interface OutboundMessage {
+  to: { id: number; username: string; email: string };
+  subject: string;
+  body: string;
+}
+
+interface Notifier {
+  send(message: OutboundMessage): Promise<void>;
+}
+
+const consoleNotifier: Notifier = {
+  async send(message) {
+    console.log(`[notifier] to ${message.to.email}: ${message.subject}\n${message.body}`);
+  },
+};
+
+const createWebhookNotifier = (url: string): Notifier => ({
+  async send(message) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`Notifier webhook responded with ${response.status}`);
+    }
+  },
+});
+
+const emailNotifier: Notifier = {
+  send: (message) => mailTransport.send({ to: message.to.email, subject: message.subject, text: message.body }),
+};
+
+const notifier: Notifier = process.env.NOTIFIER === "webhook" && process.env.NOTIFIER_WEBHOOK_URL
+  ? createWebhookNotifier(process.env.NOTIFIER_WEBHOOK_URL)
+  : process.env.NOTIFIER === "email" ? emailNotifier : consoleNotifier;
+
+// `link` names the App.tsx tab the notification opens (e.g. "applications", "postings")
+const createNotification = (userId: number, type: string, title: string, body?: string | null, link?: string | null) => {
+  db.prepare("INSERT INTO notifications (user_id, type, title, body, link) VALUES (?, ?, ?, ?, ?)")
+    .run(userId, type, title, body || null, link || null);
+};
+
+// Audit trail for admin and moderator actions. Actor and target names are copied in so entries stay readable
+// after the accounts or postings they mention are deleted. Scheduled jobs pass a null req and have no actor.
+const recordAudit = (req: any, action: string, target: { type: string; id?: number | string | bigint | null; label?: string | null }, before?: any, after?: any) => {
+  db.prepare(`
+    INSERT INTO audit_log (actor_id, actor_username, action, target_type, target_id, target_label, before_json, after_json, ip)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    req?.user?.id ?? null, req?.user?.username ?? null, action, target.type,
+    target.id != null ? String(target.id) : null, target.label ?? null,
+    before ? JSON.stringify(before) : null, after ? JSON.stringify(after) : null, req?.ip || null
+  );
+};
+
+const auditUserSnapshot = (userId: number | string) =>
+  db.prepare("SELECT id, username, email, role, is_suspended, is_public FROM users WHERE id = ? AND deleted_at IS NULL").get(userId) as any;
+
+const auditProfileSnapshot = (userId: number | string) => {
+  const snapshot: any = db.prepare(`
+    SELECT u.id AS user_id, u.username, u.email, u.role, u.is_public, p.name, p.photo_url, p.contact_details, p.location,
+      p.resume_url, p.portfolio_url, p.linkedin_url, p.github_url
+    FROM users u LEFT JOIN profiles p ON p.user_id = u.id WHERE u.id = ? AND u.deleted_at IS NULL
+  `).get(userId);
+  return snapshot && withProfileSections([snapshot])[0];
+};
+
+const auditJobSnapshot = (jobId: number | string) =>
+  db.prepare(`
+    SELECT id, title, company, location, category, experience, salary, requirements, link, link_type, status, posted_by, user_id
+    FROM jobs WHERE id = ? AND deleted_at IS NULL
+  `).get(jobId) as any;
+
+const AUDIT_FILTERS: Record<string, string> = {
+  action: "action = ?",
+  actor: "actor_username = ?",
+  target_type: "target_type = ?",
+  target_id: "target_id = ?",
+  from: "created_at >= date(?)",
+  to: "created_at < date(?, '+1 day')",
+};
+
+const buildAuditFilters = (query: any) => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  for (const [key, condition] of Object.entries(AUDIT_FILTERS)) {
+    if (typeof query[key] === "string" && query[key].trim()) {
+      conditions.push(condition);
+      params.push(query[key].trim());
+    }
+  }
+  return { whereSql: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+};
+
+const toCsv = (rows: any[], columns: string[]) => {
+  const escape = (value: any) => {
+    // A leading quote stops spreadsheets from evaluating user-supplied text as a formula
+    const raw = value == null ? "" : String(value);
+    const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.join(","), ...rows.map(row => columns.map(column => escape(row[column])).join(","))].join("\r\n");
+};
+
+// Job listing query helpers
+const JOB_SORT_ORDERS: Record<string, string> = {
+  newest: "j.created_at DESC, j.id DESC",
+  oldest: "j.created_at ASC, j.id ASC",
+};
+const DEFAULT_PAGE_SIZE = 6;
+const MAX_PAGE_SIZE = 50;
+
+const parsePagination = (query: any) => {
+  const page = Math.max(1, parseInt(query.page, 10) || 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(query.pageSize, 10) || DEFAULT_PAGE_SIZE));
+  return { page, pageSize, offset: (page - 1) * pageSize };
+};
+
+const buildJobFilters = (query: any, userId?: number) => {
+  // Closed, filled and archived postings are only visible to their poster and admins
+  const where: string[] = ["j.status = 'open'", "j.archived_at IS NULL", "j.deleted_at IS NULL"];
+  const params: any[] = [];
+
+  if (typeof query.category === "string" && query.category && query.category !== "All") {
+    where.push("j.category = ?");
+    params.push(query.category);
+  }
+  if (typeof query.experience === "string" && query.experience && query.experience !== "Any") {
+    where.push("j.experience = ?");
+    params.push(query.experience);
+  }
+  const ftsQuery = typeof query.search === "string" ? buildFtsQuery(query.search) : "";
+  if (ftsQuery) {
+    where.push("j.id IN (SELECT rowid FROM jobs_fts WHERE jobs_fts MATCH ?)");
+    params.push(ftsQuery);
+  }
+  if (typeof query.location === "string" && query.location.trim()) {
+    where.push("LOWER(j.location) LIKE ?");
+    params.push(`%${query.location.trim().toLowerCase()}%`);
+  }
+  if (query.saved === "1" && userId) {
+    where.push("j.id IN (SELECT job_id FROM saved_jobs WHERE user_id = ?)");
+    params.push(userId);
+  }
+
+  return { whereSql: `WHERE ${where.join(" AND ")}`, params };
+};
+
+// Structured profile sections (skill names, work history, education) for a batch of rows that carry a user_id.
+// Entries are listed current first, then by most recent end date.
+const PROFILE_ENTRY_ORDER = "end_date IS NOT NULL, end_date DESC, start_date DESC, id DESC";
+
+const withProfileSections = <T extends { user_id: number }>(rows: T[]) => {
+  if (rows.length === 0) return [];
+  const userIds = [...new Set(rows.map(row => row.user_id))];
+  const placeholders = userIds.map(() => "?").join(", ");
+  const skills = db.prepare(`
+    SELECT ps.user_id, s.name FROM profile_skills ps JOIN skills s ON s.id = ps.skill_id
+    WHERE ps.user_id IN (${placeholders}) ORDER BY s.slug
+  `).all(...userIds) as any[];
+  const experiences = db.prepare(`
+    SELECT id, user_id, title, company, start_date, end_date, description FROM work_experiences
+    WHERE user_id IN (${placeholders}) ORDER BY ${PROFILE_ENTRY_ORDER}
+  `).all(...userIds) as any[];
+  const education = db.prepare(`
+    SELECT id, user_id, institution, degree, field_of_study, start_date, end_date, description FROM education_entries
+    WHERE user_id IN (${placeholders}) ORDER BY ${PROFILE_ENTRY_ORDER}
+  `).all(...userIds) as any[];
+  const forUser = (entries: any[], userId: number) =>
+    entries.filter(entry => entry.user_id === userId).map(({ user_id, ...entry }) => entry);
+
+  return rows.map(row => ({
+    ...row,
+    skills: skills.filter(skill => skill.user_id === row.user_id).map(skill => skill.name as string),
+    experiences: forUser(experiences, row.user_id),
+    education: forUser(education, row.user_id),
+  }));
+};
+
+// Public profile directory helpers. Only public, active accounts are ever listed; every search term must match.
+const PROFILE_LIST_COLUMNS = `
+  p.user_id, u.username, p.name, p.photo_url, p.location,
+  p.resume_url, p.portfolio_url, p.linkedin_url, p.github_url, p.updated_at
+`;
+
+// Skills match whole tags; the other filters match anywhere in the text. Each ? is bound to the search term.
+const PROFILE_FILTERS: Record<string, string> = {
+  q: `(p.name LIKE ?
+    OR p.user_id IN (SELECT ps.user_id FROM profile_skills ps JOIN skills s ON s.id = ps.skill_id WHERE s.name LIKE ?)
+    OR p.user_id IN (SELECT user_id FROM work_experiences WHERE title LIKE ? OR company LIKE ? OR description LIKE ?)
+    OR p.user_id IN (SELECT user_id FROM education_entries WHERE institution LIKE ? OR degree LIKE ? OR field_of_study LIKE ?))`,
+  skills: "p.user_id IN (SELECT ps.user_id FROM profile_skills ps JOIN skills s ON s.id = ps.skill_id WHERE s.slug = ?)",
+  location: "p.location LIKE ?",
+  experience: "p.user_id IN (SELECT user_id FROM work_experiences WHERE title LIKE ? OR company LIKE ? OR description LIKE ?)",
+};
+
+const buildProfileFilters = (query: any) => {
+  const where: string[] = ["u.is_public = 1", "u.is_suspended = 0", "u.deleted_at IS NULL"];
+  const params: any[] = [];
+  for (const [key, condition] of Object.entries(PROFILE_FILTERS)) {
+    if (typeof query[key] !== "string") continue;
+    // Comma-separated skills are matched one by one, so "react, node" finds people who list both
+    const terms = (key === "skills" ? query[key].split(",") : [query[key]]).map((term: string) => term.trim()).filter(Boolean);
+    for (const term of terms) {
+      where.push(condition);
+      const value = key === "skills" ? skillSlug(term) : `%${term}%`;
+      params.push(...Array(condition.split("?").length - 1).fill(value));
+    }
+  }
+  return { whereSql: `WHERE ${where.join(" AND ")}`, params };
+};
+
+// One page of public profiles matching the query, most recently updated first; backs both the directory and candidate search
+const searchPublicProfiles = (query: any) => {
+  const { page, pageSize, offset } = parsePagination(query);
+  const { whereSql, params } = buildProfileFilters(query);
+  const { count: total } = db.prepare(`SELECT COUNT(*) as count FROM profiles p JOIN users u ON p.user_id = u.id ${whereSql}`).get(...params) as any;
+  const rows = db.prepare(`
+    SELECT ${PROFILE_LIST_COLUMNS}
+    FROM profiles p JOIN users u ON p.user_id = u.id
+    ${whereSql}
+    ORDER BY p.updated_at DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, pageSize, offset) as any[];
+  return { rows: withProfileSections(rows), total, page, pageSize, totalPages: Math.ceil(total / pageSize) };
+};
+
+// Work history and education entries share one set of routes; each type lists its editable fields and the one it requires
+const PROFILE_ENTRY_TYPES: Record<string, { table: string; fields: string[]; required: string; requiredLabel: string }> = {
+  experiences: {
+    table: "work_experiences",
+    fields: ["title", "company", "start_date", "end_date", "description"],
+    required: "title",
+    requiredLabel: "Job title",
+  },
+  education: {
+    table: "education_entries",
+    fields: ["institution", "degree", "field_of_study", "start_date", "end_date", "description"],
+    required: "institution",
+    requiredLabel: "Institution",
+  },
+};
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Trims a submitted entry down to its known fields; returns an error message or the values to store
+const readProfileEntry = (entryType: typeof PROFILE_ENTRY_TYPES[string], body: any) => {
+  const values = entryType.fields.map(field => typeof body[field] === "string" && body[field].trim() ? body[field].trim() : null);
+  const entry = Object.fromEntries(entryType.fields.map((field, i) => [field, values[i]]));
+  if (!entry[entryType.required]) return { error: `${entryType.requiredLabel} is required` };
+  if (entry.start_date && !MONTH_PATTERN.test(entry.start_date)) return { error: "Start date must look like YYYY-MM" };
+  if (entry.end_date && !MONTH_PATTERN.test(entry.end_date)) return { error: "End date must look like YYYY-MM" };
+  if (entry.start_date && entry.end_date && entry.end_date < entry.start_date) return { error: "End date can't be before the start date" };
+  return { values };
+};
+
+// Job matching: each open job is scored out of 100 against the user's profile. Skills are worth 60
+// (three matching skills is a full score), experience level 25 and location 15.
+const MATCH_WEIGHTS = { skills: 60, experience: 25, location: 15 };
+const FULL_SKILL_MATCHES = 3;
+
+// Years of experience each job level expects; a profile one level away still earns half the points
+const EXPERIENCE_LEVEL_YEARS: Record<string, [number, number]> = {
+  "Entry Level": [0, 2],
+  "Mid Level": [2, 5],
+  "Senior Level": [5, 8],
+  "Lead/Manager": [8, Infinity],
+};
+const EXPERIENCE_LEVELS = Object.keys(EXPERIENCE_LEVEL_YEARS);
+
+// Total years across dated work entries; an entry without an end date runs until today.
+// Returns null when nothing is dated, so undated (migrated) history isn't read as zero years.
+const yearsOfExperience = (experiences: { start_date: string | null; end_date: string | null }[]) => {
+  const dated = experiences.filter(entry => entry.start_date);
+  if (experiences.length > 0 && dated.length === 0) return null;
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const months = dated.reduce((total, entry) => {
+    const [startYear, startMonth] = entry.start_date!.split("-").map(Number);
+    const [endYear, endMonth] = (entry.end_date || currentMonth).split("-").map(Number);
+    return total + Math.max(0, (endYear - startYear) * 12 + (endMonth - startMonth));
+  }, 0);
+  return months / 12;
+};
+
+// Whole-word, case-insensitive match, so "Go" doesn't match "Google" and "C++" or "Node.js" still work
+const mentionsSkill = (text: string, skill: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${skill.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}])`, "iu").test(text);
+
+const scoreJobMatch = (job: any, profile: { skills: string[]; years: number | null; location: string | null }) => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const jobText = `${job.title} ${job.requirements || ""} ${job.category}`;
+  const matchedSkills = profile.skills.filter(skill => mentionsSkill(jobText, skill));
+  if (matchedSkills.length > 0) {
+    score += MATCH_WEIGHTS.skills * Math.min(1, matchedSkills.length / Math.min(FULL_SKILL_MATCHES, profile.skills.length));
+    reasons.push(`Matches your skills: ${matchedSkills.join(", ")}`);
+  }
+
+  // Posters type the experience level freely, so only the known levels are scored
+  const expected = Object.hasOwn(EXPERIENCE_LEVEL_YEARS, job.experience) ? EXPERIENCE_LEVEL_YEARS[job.experience] : null;
+  if (expected && profile.years !== null) {
+    const yourLevel = EXPERIENCE_LEVELS.findIndex(level => profile.years! < EXPERIENCE_LEVEL_YEARS[level][1]);
+    const distance = Math.abs(yourLevel - EXPERIENCE_LEVELS.indexOf(job.experience));
+    const years = Math.floor(profile.years);
+    const yourExperience = years > 0 ? `your ${years} year${years === 1 ? "" : "s"} of experience` : "your experience so far";
+    if (distance === 0) {
+      score += MATCH_WEIGHTS.experience;
+      reasons.push(`${job.experience} fits ${yourExperience}`);
+    } else if (distance === 1) {
+      score += MATCH_WEIGHTS.experience / 2;
+      reasons.push(`${job.experience} is close to ${yourExperience}`);
+    }
+  }
+
+  const jobLocation = (job.location || "").toLowerCase();
+  const yourPlaces = (profile.location || "").toLowerCase().split(",").map(place => place.trim()).filter(place => place.length > 1);
+  if (/\bremote\b/.test(jobLocation)) {
+    score += MATCH_WEIGHTS.location;
+    reasons.push("Remote role");
+  } else if (yourPlaces.some(place => jobLocation.includes(place))) {
+    score += MATCH_WEIGHTS.location;
+    reasons.push(`Located in ${job.location}, near you`);
+  }
+
+  return { score: Math.round(score), matchedSkills: matchedSkills.length, reasons };
+};
+
+// Alerts every user whose saved search matches a newly posted job (one alert per user)
+const notifySavedSearchMatches = (jobId: number | bigint) => {
+  const job: any = db.prepare("SELECT id, title, company, user_id FROM jobs WHERE id = ?").get(jobId);
+  if (!job) return;
+
+  const searches = db.prepare(`
+    SELECT s.*, u.username, u.email FROM saved_searches s JOIN users u ON s.user_id = u.id
+    WHERE s.user_id IS NOT ? AND u.deleted_at IS NULL
+  `).all(job.user_id) as any[];
+
+  const matchesByUser = new Map<number, any[]>();
+  for (const search of searches) {
+    const { whereSql, params } = buildJobFilters(search);
+    const matched = db.prepare(`SELECT 1 FROM jobs j ${whereSql} AND j.id = ?`).get(...params, job.id);
+    if (!matched) continue;
+
+    db.prepare("UPDATE saved_searches SET new_match_count = new_match_count + 1, last_matched_at = CURRENT_TIMESTAMP WHERE id = ?")
+      .run(search.id);
+    matchesByUser.set(search.user_id, [...(matchesByUser.get(search.user_id) || []), search]);
+  }
+
+  for (const [userId, matched] of matchesByUser) {
+    const names = matched.map(search => `"${search.name}"`).join(", ");
+    const title = `New job matching ${names}`;
+    const body = `${job.title} at ${job.company}`;
+    createNotification(userId, "job_match", title, body, "jobs");
+
+    const { username, email } = matched[0];
+    notifier.send({ to: { id: userId, username, email }, subject: title, body })
+      .catch(error => console.error("Notifier error:", error));
+  }
+};
+
+
+// Middleware to verify JWT
+const authenticateToken = (req: any, res: any, next: any) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) return res.status(401).json({ error: "Unauthorized" });
+
+  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
+    // Expired access tokens get a 401 so the client knows to use its refresh token
+    if (err) return err.name === "TokenExpiredError"
+      ? res.status(401).json({ error: "Token expired" })
+      : res.status(403).json({ error: "Forbidden" });
+
+    if (!isSessionActive(user)) {
+      return res.status(401).json({ error: "Session ended. Please sign in again." });
+    }
+
+    // Check if user is suspended or deleted
+    const dbUser: any = db.prepare("SELECT is_suspended, deleted_at FROM users WHERE id = ?").get(user.id);
+    if (!dbUser || dbUser.deleted_at) {
+      return res.status(401).json({ error: "Session ended. Please sign in again." });
+    }
+    if (dbUser.is_suspended) {
+      return res.status(403).json({ error: "Account suspended. Please contact support." });
+    }
+
+    req.user = user;
+    next();
+  });
+};
+
+// Unverified accounts can browse, but posting and applying need a confirmed email. Run after authenticateToken.
+const requireVerifiedEmail = (req: any, res: any, next: any) => {
+  const dbUser: any = db.prepare("SELECT email_verified FROM users WHERE id = ?").get(req.user.id);
+  if (!dbUser?.email_verified) {
+    return res.status(403).json({ error: "Please verify your email address first" });
+  }
+  next();
+};
+
+// Attaches req.user when a valid token is sent, but lets anonymous requests through
+const optionalAuth = (req: any, res: any, next: any) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+  if (!token) return next();
+
+  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
+    if (!err && isSessionActive(user)) req.user = user;
+    next();
+  });
+};
+
+// Checks the caller's current role in the database (not the possibly stale one in the token) for a permission
+const requirePermission = (permission: string) => (req: any, res: any, next: any) => {
+  authenticateToken(req, res, () => {
+    const user: any = db.prepare("SELECT role, totp_enabled, must_change_password FROM users WHERE id = ?").get(req.user.id);
+    if (!user || !hasPermission(user.role, permission)) {
+      return res.status(403).json({ error: "You don't have permission to do that" });
+    }
+    if (user.must_change_password) {
+      return res.status(403).json({ error: "Change your password to use admin tools", password_change_required: true });
+    }
+    if (REQUIRE_ADMIN_2FA && !user.totp_enabled) {
+      return res.status(403).json({ error: "Set up two-factor authentication to use admin tools", mfa_setup_required: true });
+    }
+    req.user.role = user.role;
+    next();
+  });
+};
+
+async function startServer() {
+  const app = express();
+  const PORT = 3000;
+
+  if (TRUST_PROXY && TRUST_PROXY !== "false") {
+    app.set("trust proxy", /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY === "true" ? true : TRUST_PROXY);
+  }
+  app.use(express.json());
+  app.use("/uploads", express.static(uploadsDir));
+
+  // Seed the initial admin from ADMIN_USERNAME / ADMIN_EMAIL / ADMIN_PASSWORD. Without a password (or with
+  // one that fails the policy) it falls back to Admin/Admin, which must be changed before admin tools unlock.
+  const adminUsername = process.env.ADMIN_USERNAME || "Admin";
+  const adminUser: any = db.prepare("SELECT * FROM users WHERE username = ?").get(adminUsername);
+  if (!adminUser) {
+    const envPassword = process.env.ADMIN_PASSWORD;
+    const envPasswordErrors = envPassword ? passwordPolicyErrors(envPassword, { username: adminUsername }) : [];
+    const usesEnvPassword = !!envPassword && envPasswordErrors.length === 0;
+    if (envPassword && !usesEnvPassword) {
+      console.warn(`ADMIN_PASSWORD ignored: ${envPasswordErrors.join("; ")}`);
+    }
+    const hashedPassword = await bcrypt.hash(usesEnvPassword ? envPassword! : "Admin", 10);
+    const info = db.prepare("INSERT INTO users (username, email, password, role, email_verified, must_change_password) VALUES (?, ?, ?, ?, 1, ?)")
+      .run(adminUsername, process.env.ADMIN_EMAIL || "admin@ankur.com", hashedPassword, "admin", usesEnvPassword ? 0 : 1);
+    db.prepare("INSERT INTO profiles (user_id, name) VALUES (?, ?)").run(info.lastInsertRowid, "Administrator");
+    console.log(usesEnvPassword
+      ? `Admin user "${adminUsername}" created from ADMIN_PASSWORD`
+      : `Admin user "${adminUsername}" created with the default password "Admin"; it must be changed on first sign-in`);
+  }
+
+  // Admins created before the first-run flag existed may still be on the default password
+  const unflaggedAdmins = db.prepare("SELECT id, password FROM users WHERE role = 'admin' AND must_change_password = 0").all() as any[];
+  for (const admin of unflaggedAdmins) {
+    if (await bcrypt.compare("Admin", admin.password)) {
+      db.prepare("UPDATE users SET must_change_password = 1 WHERE id = ?").run(admin.id);
+    }
+  }
+
+  // Promote first user to admin if no admin exists (fallback)
+  const adminCount: any = db.prepare("SELECT COUNT(*) as count FROM users WHERE role = 'admin'").get();
+  if (adminCount.count === 0) {
+    const firstUser: any = db.prepare("SELECT id FROM users ORDER BY id ASC LIMIT 1").get();
+    if (firstUser) {
+      db.prepare("UPDATE users SET role = 'admin' WHERE id = ?").run(firstUser.id);
+      console.log(`User ${firstUser.id} promoted to admin`);
+    }
+  }
+
+  // Upload Routes
+  app.post("/api/upload/resume", authenticateToken, upload.single("resume"), (req: any, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+    const fileUrl = `/uploads/${req.file.filename}`;
+    res.json({ url: fileUrl });
+  });
+
+  app.post("/api/upload/photo", authenticateToken, upload.single("photo"), (req: any, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+    const fileUrl = `/uploads/${req.file.filename}`;
+    res.json({ url: fileUrl });
+  });
+
+  // Auth Routes
+  app.post("/api/auth/register", async (req, res) => {
+    const { username, email, password, phone, invite_code } = req.body;
+    if (!username || !email || !password) {
+      return res.status(400).json({ error: "Missing fields" });
+    }
+    if (typeof username !== "string" || typeof email !== "string" || typeof password !== "string") {
+      return res.status(400).json({ error: "Invalid fields" });
+    }
+
+    try {
+      if (rejectWeakPassword(res, password, { username, email })) return;
+
+      // Members on an approved domain don't need an invite; everyone else must redeem one
+      let invite: any = null;
+      if (!isAllowedEmailDomain(email)) {
+        if (!invite_code) {
+          return res.status(403).json({ error: "Registration is limited to group members. Use an approved email domain or enter an invite code." });
+        }
+        invite = db.prepare("SELECT * FROM invites WHERE code = ?").get(String(invite_code).trim());
+        const error = inviteError(invite);
+        if (error) return res.status(403).json({ error });
+      }
+
+      const hashedPassword = await bcrypt.hash(password, 10);
+      const info = db.transaction(() => {
+        if (invite) {
+          // Re-checked inside the transaction so concurrent sign-ups can't overspend a code
+          const redeemed = db.prepare(`
+            UPDATE invites SET uses = uses + 1
+            WHERE id = ? AND uses < max_uses AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > datetime('now'))
+          `).run(invite.id);
+          if (!redeemed.changes) throw new Error("INVITE_EXHAUSTED");
+        }
+        const result = db.prepare("INSERT INTO users (username, email, password, phone) VALUES (?, ?, ?, ?)")
+          .run(username, email, hashedPassword, phone || null);
+
+        // Create initial profile
+        db.prepare("INSERT INTO profiles (user_id, name) VALUES (?, ?)").run(result.lastInsertRowid, username);
+        return result;
+      })();
+
+      sendVerificationEmail({ id: Number(info.lastInsertRowid), username, email });
+
+      const { token, refreshToken } = createSession({ id: info.lastInsertRowid, username, email, role: 'user' }, req);
+      res.status(201).json({ token, refreshToken, user: { id: info.lastInsertRowid, username, email, role: 'user', email_verified: 0 } });
+    } catch (error: any) {
+      if (error.message.includes("UNIQUE")) {
+        return res.status(400).json({ error: "Username or email already exists" });
+      }
+      if (error.message === "INVITE_EXHAUSTED") {
+        return res.status(403).json({ error: "This invite is no longer valid" });
+      }
+      res.status(500).json({ error: "Registration failed" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    const { identifier, password } = req.body; // changed email to identifier
+    try {
+      if (!identifier || !password) return res.status(400).json({ error: "Missing fields" });
+      if (typeof identifier !== "string" || typeof password !== "string") return res.status(400).json({ error: "Invalid fields" });
+
+      const user: any = db.prepare("SELECT * FROM users WHERE (email = ? OR username = ?) AND deleted_at IS NULL").get(identifier, identifier);
+      const retryAfter = loginRetryAfter(identifier, user?.id ?? null, req.ip || "unknown");
+      if (retryAfter > 0) return sendTooManyAttempts(res, retryAfter);
+
+      if (!user || !(await bcrypt.compare(password, user.password))) {
+        recordLoginFailure(identifier, user?.id ?? null, req, user ? "bad_password" : "unknown_user");
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      // With 2FA on, the password only earns a short-lived token for the second step. The account's failure
+      // counter is kept until that step passes too, so re-entering the password can't buy more code guesses.
+      if (user.totp_enabled) {
+        return res.json({ mfa_required: true, mfa_token: issueAuthToken(user.id, "mfa_login", MFA_LOGIN_TTL_MINUTES) });
+      }
+      clearAccountLoginFailures(user.id);
+
+      const { token, refreshToken } = createSession(user, req);
+      res.json({ token, refreshToken, user: authUserResponse(user) });
+    } catch (error) {
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/login/mfa", (req, res) => {
+    const { mfa_token, code } = req.body;
+    if (!mfa_token || !code) return res.status(400).json({ error: "Authentication code required" });
+
+    try {
+      const userId = peekAuthToken(mfa_token, "mfa_login");
+      if (!userId) return res.status(401).json({ error: "Sign-in expired. Please enter your password again." });
+
+      const user: any = db.prepare("SELECT * FROM users WHERE id = ? AND deleted_at IS NULL").get(userId);
+      if (!user) return res.status(401).json({ error: "Sign-in expired. Please enter your password again." });
+
+      const retryAfter = loginRetryAfter(user.username, user.id, req.ip || "unknown");
+      if (retryAfter > 0) return sendTooManyAttempts(res, retryAfter);
+
+      if (!verifySecondFactor(user, code)) {
+        recordLoginFailure(user.username, user.id, req, "bad_2fa_code");
+        return res.status(401).json({ error: "Invalid authentication code" });
+      }
+      if (!consumeAuthToken(mfa_token, "mfa_login")) {
+        return res.status(401).json({ error: "Sign-in expired. Please enter your password again." });
+      }
+      clearAccountLoginFailures(user.id);
+
+      const { token, refreshToken } = createSession(user, req);
+      res.json({ token, refreshToken, user: authUserResponse(user) });
+    } catch (error) {
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/refresh", (req, res) => {
+    const { refreshToken } = req.body;
+    if (!refreshToken) return res.status(400).json({ error: "Refresh token required" });
+
+    try {
+      const tokenHash = hashToken(refreshToken);
+      const session: any = db.prepare(`
+        SELECT *, expires_at <= datetime('now') AS expired FROM sessions WHERE refresh_token_hash = ?
+      `).get(tokenHash);
+
+      if (!session) {
+        // A rotated-out token coming back means it was copied; end that session. Near-simultaneous
+        // refreshes from two tabs of the same browser are let off with a plain 401.
+        const reused: any = db.prepare(`
+          SELECT id FROM sessions WHERE previous_token_hash = ? AND last_used_at < datetime('now', '-10 seconds')
+        `).get(tokenHash);
+        if (reused) db.prepare("UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL").run(reused.id);
+        return res.status(401).json({ error: "Session expired. Please sign in again." });
+      }
+      if (session.revoked_at || session.expired) {
+        return res.status(401).json({ error: "Session expired. Please sign in again." });
+      }
+
+      // Re-read the user so role changes and suspensions apply from the next access token
+      const user: any = db.prepare("SELECT * FROM users WHERE id = ?").get(session.user_id);
+      if (!user || user.is_suspended) {
+        revokeUserSessions(session.user_id);
+        return res.status(403).json({ error: "Account suspended. Please contact support." });
+      }
+
+      const nextRefreshToken = crypto.randomBytes(32).toString("hex");
+      db.prepare(`
+        UPDATE sessions SET previous_token_hash = refresh_token_hash, refresh_token_hash = ?, last_used_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(hashToken(nextRefreshToken), session.id);
+      res.json({
+        token: signAccessToken(user, session.id),
+        refreshToken: nextRefreshToken,
+        user: authUserResponse(user)
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to refresh session" });
+    }
+  });
+
+  // Works with just the refresh token so an expired access token doesn't block signing out
+  app.post("/api/auth/logout", (req, res) => {
+    const { refreshToken } = req.body;
+    try {
+      if (refreshToken) {
+        db.prepare("UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE refresh_token_hash = ? AND revoked_at IS NULL")
+          .run(hashToken(refreshToken));
+      }
+      res.json({ message: "Logged out" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to log out" });
+    }
+  });
+
+  app.get("/api/auth/sessions", authenticateToken, (req: any, res) => {
+    try {
+      const sessions = db.prepare(`
+        SELECT id, user_agent, ip, created_at, last_used_at FROM sessions
+        WHERE user_id = ? AND revoked_at IS NULL AND expires_at > datetime('now')
+        ORDER BY last_used_at DESC
+      `).all(req.user.id) as any[];
+      res.json(sessions.map(session => ({ ...session, current: session.id === req.user.sid })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  app.post("/api/auth/sessions/revoke-others", authenticateToken, (req: any, res) => {
+    try {
+      revokeUserSessions(req.user.id, req.user.sid);
+      res.json({ message: "Signed out of all other devices" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", authenticateToken, (req: any, res) => {
+    try {
+      const info = db.prepare("UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND revoked_at IS NULL")
+        .run(req.params.id, req.user.id);
+      if (info.changes === 0) return res.status(404).json({ error: "Session not found" });
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke session" });
+    }
+  });
+
+  // One-time code login for accounts with a verified phone
+  app.post("/api/auth/otp/request", async (req, res) => {
+    const phone = normalizePhone(req.body.phone);
+    if (!phone) return res.status(400).json({ error: "Enter your phone number with country code, e.g. +919876543210" });
+
+    try {
+      const user: any = db.prepare("SELECT id FROM users WHERE phone = ? AND phone_verified = 1 AND deleted_at IS NULL").get(phone);
+      if (user && !(await sendPhoneOtp(user.id, phone, "login"))) {
+        return res.status(429).json({ error: `Too many codes requested. Try again in ${OTP_SEND_WINDOW_MINUTES} minutes.` });
+      }
+      // Same response either way so the endpoint doesn't reveal which numbers are registered
+      res.json({ message: "If this number belongs to a verified account, a code has been sent" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to send code" });
+    }
+  });
+
+  app.post("/api/auth/otp/login", (req, res) => {
+    const phone = normalizePhone(req.body.phone);
+    if (!phone || !req.body.code) return res.status(400).json({ error: "Phone and code required" });
+
+    try {
+      // Throttled like password sign-in, keyed on the account that owns the number
+      const owner: any = db.prepare("SELECT id FROM users WHERE phone = ? AND phone_verified = 1 AND deleted_at IS NULL").get(phone);
+      const retryAfter = loginRetryAfter(phone, owner?.id ?? null, req.ip || "unknown");
+      if (retryAfter > 0) return sendTooManyAttempts(res, retryAfter);
+
+      const result = checkPhoneOtp(phone, "login", req.body.code);
+      if (result.error) {
+        recordLoginFailure(phone, owner?.id ?? null, req, owner ? "bad_otp_code" : "unknown_user");
+        return res.status(401).json({ error: result.error });
+      }
+
+      const user: any = db.prepare("SELECT * FROM users WHERE id = ? AND phone = ? AND phone_verified = 1 AND deleted_at IS NULL").get(result.userId, phone);
+      if (!user) {
+        recordLoginFailure(phone, owner?.id ?? null, req, "unknown_user");
+        return res.status(401).json({ error: "Invalid credentials" });
+      }
+
+      if (user.totp_enabled) {
+        return res.json({ mfa_required: true, mfa_token: issueAuthToken(user.id, "mfa_login", MFA_LOGIN_TTL_MINUTES) });
+      }
+      clearAccountLoginFailures(user.id);
+
+      const { token, refreshToken } = createSession(user, req);
+      res.json({ token, refreshToken, user: authUserResponse(user) });
+    } catch (error) {
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  // Single sign-on. The browser is sent to the identity provider and comes back to the callback, which hands the
+  // app a short-lived one-time code in the URL; the client trades it for tokens like any other sign-in.
+  app.get("/api/auth/oidc/config", (req, res) => {
+    res.json(OIDC_CONFIG ? { enabled: true, name: OIDC_CONFIG.name } : { enabled: false });
+  });
+
+  const redirectWithSsoError = (res: any, message: string) =>
+    res.redirect(`${APP_URL}/?sso_error=${encodeURIComponent(message)}`);
+
+  app.get("/api/auth/oidc/start", async (req, res) => {
+    if (!OIDC_CONFIG) return res.status(404).json({ error: "Single sign-on is not configured" });
+
+    try {
+      const discovery = await getOidcDiscovery();
+      const state = crypto.randomBytes(16).toString("hex");
+      const nonce = crypto.randomBytes(16).toString("hex");
+      const codeVerifier = crypto.randomBytes(32).toString("base64url");
+      db.prepare("DELETE FROM oidc_login_states WHERE expires_at <= datetime('now')").run();
+      db.prepare("INSERT INTO oidc_login_states (state_hash, nonce, code_verifier, expires_at) VALUES (?, ?, ?, datetime('now', ?))")
+        .run(hashToken(state), nonce, codeVerifier, `+${OIDC_LOGIN_TTL_MINUTES} minutes`);
+
+      const params = new URLSearchParams({
+        response_type: "code",
+        client_id: OIDC_CONFIG.clientId,
+        redirect_uri: OIDC_CONFIG.redirectUri,
+        scope: OIDC_CONFIG.scopes,
+        state,
+        nonce,
+        code_challenge: crypto.createHash("sha256").update(codeVerifier).digest("base64url"),
+        code_challenge_method: "S256",
+      });
+      res.redirect(`${discovery.authorization_endpoint}?${params}`);
+    } catch (error) {
+      console.error("OIDC start failed:", error);
+      redirectWithSsoError(res, `${OIDC_CONFIG.name} is unavailable right now. Try again later.`);
+    }
+  });
+
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    if (!OIDC_CONFIG) return res.status(404).json({ error: "Single sign-on is not configured" });
+    const { code, state, error, error_description } = req.query as Record<string, string | undefined>;
+    if (error) return redirectWithSsoError(res, error_description || (error === "access_denied" ? "Sign-in was cancelled" : "Sign-in failed"));
+    if (!code || !state) return redirectWithSsoError(res, "Sign-in failed");
+
+    try {
+      const login: any = db.prepare("SELECT * FROM oidc_login_states WHERE state_hash = ? AND expires_at > datetime('now')").get(hashToken(state));
+      const claimed = login && db.prepare("DELETE FROM oidc_login_states WHERE id = ?").run(login.id).changes;
+      if (!claimed) return redirectWithSsoError(res, "Sign-in expired. Please try again.");
+
+      const claims = await exchangeOidcCode(code, login.code_verifier);
+      if (claims.nonce !== login.nonce) throw new Error("OIDC nonce mismatch");
+
+      const result = await findOrLinkOidcUser(claims);
+      if (result.error) return redirectWithSsoError(res, result.error);
+      if (!result.user) return redirectWithSsoError(res, "Sign-in failed");
+
+      res.redirect(`${APP_URL}/?sso_code=${issueAuthToken(result.user.id, "sso_login", SSO_EXCHANGE_TTL_MINUTES)}`);
+    } catch (error) {
+      console.error("OIDC callback failed:", error);
+      redirectWithSsoError(res, "Sign-in failed");
+    }
+  });
+
+  app.post("/api/auth/oidc/exchange", (req, res) => {
+    if (!req.body.code) return res.status(400).json({ error: "Sign-in code required" });
+
+    try {
+      const userId = consumeAuthToken(req.body.code, "sso_login");
+      const user: any = userId && db.prepare("SELECT * FROM users WHERE id = ? AND deleted_at IS NULL").get(userId);
+      if (!user) return res.status(401).json({ error: "Sign-in expired. Please try again." });
+
+      if (user.totp_enabled) {
+        return res.json({ mfa_required: true, mfa_token: issueAuthToken(user.id, "mfa_login", MFA_LOGIN_TTL_MINUTES) });
+      }
+
+      const { token, refreshToken } = createSession(user, req);
+      res.json({ token, refreshToken, user: authUserResponse(user) });
+    } catch (error) {
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  // Two-factor authentication management for the signed-in user
+  app.get("/api/auth/2fa", authenticateToken, (req: any, res) => {
+    try {
+      const user: any = db.prepare("SELECT role, totp_enabled FROM users WHERE id = ?").get(req.user.id);
+      const backup: any = db.prepare("SELECT COUNT(*) as count FROM mfa_backup_codes WHERE user_id = ? AND used_at IS NULL").get(req.user.id);
+      res.json({
+        enabled: !!user?.totp_enabled,
+        required: REQUIRE_ADMIN_2FA && isStaffRole(user?.role),
+        backupCodesRemaining: backup.count
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Starts enrollment with a fresh secret; it only takes effect once a code from it is confirmed
+  app.post("/api/auth/2fa/setup", authenticateToken, async (req: any, res) => {
+    try {
+      const user: any = db.prepare("SELECT username, totp_enabled FROM users WHERE id = ?").get(req.user.id);
+      if (user.totp_enabled) return res.status(400).json({ error: "Two-factor authentication is already enabled" });
+
+      const secret = base32Encode(crypto.randomBytes(20));
+      db.prepare("UPDATE users SET totp_secret = ?, totp_last_step = NULL WHERE id = ?").run(secret, req.user.id);
+
+      const issuer = "ANKUR JOBS";
+      const otpauthUrl = `otpauth://totp/${encodeURIComponent(`${issuer}:${user.username}`)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=6&period=${TOTP_STEP_SECONDS}`;
+      res.json({ secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", authenticateToken, (req: any, res) => {
+    try {
+      const user: any = db.prepare("SELECT * FROM users WHERE id = ?").get(req.user.id);
+      if (user.totp_enabled) return res.status(400).json({ error: "Two-factor authentication is already enabled" });
+      if (!user.totp_secret) return res.status(400).json({ error: "Start two-factor setup first" });
+
+      const step = matchTotpStep(user.totp_secret, String(req.body.code || "").replace(/\s/g, ""), null);
+      if (step === null) return res.status(400).json({ error: "That code didn't match. Check your authenticator app and try again." });
+
+      db.prepare("UPDATE users SET totp_enabled = 1, totp_last_step = ? WHERE id = ?").run(step, req.user.id);
+      res.json({ message: "Two-factor authentication enabled", backupCodes: generateBackupCodes(req.user.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/backup-codes", authenticateToken, (req: any, res) => {
+    try {
+      const user: any = db.prepare("SELECT * FROM users WHERE id = ?").get(req.user.id);
+      if (!user.totp_enabled) return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+      if (!verifySecondFactor(user, req.body.code)) return res.status(401).json({ error: "Invalid authentication code" });
+
+      res.json({ backupCodes: generateBackupCodes(req.user.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to regenerate backup codes" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", authenticateToken, async (req: any, res) => {
+    const { password, code } = req.body;
+    try {
+      const user: any = db.prepare("SELECT * FROM users WHERE id = ?").get(req.user.id);
+      if (!user.totp_enabled) return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+      if (REQUIRE_ADMIN_2FA && isStaffRole(user.role)) {
+        return res.status(403).json({ error: "Two-factor authentication is required for staff accounts" });
+      }
+      if (!password || !(await bcrypt.compare(password, user.password)) || !verifySecondFactor(user, code)) {
+        return res.status(401).json({ error: "Password or authentication code is incorrect" });
+      }
+
+      db.transaction(() => {
+        db.prepare("UPDATE users SET totp_enabled = 0, totp_secret = NULL, totp_last_step = NULL WHERE id = ?").run(req.user.id);
+        db.prepare("DELETE FROM mfa_backup_codes WHERE user_id = ?").run(req.user.id);
+      })();
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Phone verification for the signed-in user; an optional new number replaces the stored one once verified
+  app.post("/api/auth/phone/send-verification", authenticateToken, async (req: any, res) => {
+    try {
+      const user: any = db.prepare("SELECT phone FROM users WHERE id = ?").get(req.user.id);
+      const phone = normalizePhone(req.body.phone || user?.phone);
+      if (!phone) return res.status(400).json({ error: "Enter your phone number with country code, e.g. +919876543210" });
+
+      const taken = db.prepare("SELECT 1 FROM users WHERE phone = ? AND phone_verified = 1 AND id != ?").get(phone, req.user.id);
+      if (taken) return res.status(400).json({ error: "This number is already verified on another account" });
+
+      if (!(await sendPhoneOtp(req.user.id, phone, "verify_phone"))) {
+        return res.status(429).json({ error: `Too many codes requested. Try again in ${OTP_SEND_WINDOW_MINUTES} minutes.` });
+      }
+      res.json({ message: `Code sent to ${phone}`, phone });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to send code" });
+    }
+  });
+
+  app.post("/api/auth/phone/verify", authenticateToken, (req: any, res) => {
+    const phone = normalizePhone(req.body.phone);
+    if (!phone || !req.body.code) return res.status(400).json({ error: "Phone and code required" });
+
+    try {
+      const result = checkPhoneOtp(phone, "verify_phone", req.body.code);
+      if (result.error) return res.status(400).json({ error: result.error });
+      if (result.userId !== req.user.id) return res.status(400).json({ error: "Code expired or not found. Request a new one." });
+
+      db.prepare("UPDATE users SET phone = ?, phone_verified = 1 WHERE id = ?").run(phone, req.user.id);
+      res.json({ message: "Phone number verified", phone });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify phone" });
+    }
+  });
+
+  // Lets forms describe the rules before the user submits
+  app.get("/api/auth/password-policy", (req, res) => {
+    res.json({
+      minLength: PASSWORD_POLICY.minLength,
+      maxLength: PASSWORD_POLICY.maxLength,
+      requirements: PASSWORD_POLICY.requiredClasses.map(requiredClass => PASSWORD_CLASS_RULES[requiredClass].message),
+    });
+  });
+
+  app.post("/api/auth/verify-email", (req, res) => {
+    const { token } = req.body;
+    if (!token) return res.status(400).json({ error: "Token required" });
+
+    try {
+      const userId = consumeAuthToken(token, "verify_email");
+      if (!userId) return res.status(400).json({ error: "This verification link is invalid or has expired" });
+
+      db.prepare("UPDATE users SET email_verified = 1 WHERE id = ?").run(userId);
+      res.json({ message: "Email verified" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", authenticateToken, (req: any, res) => {
+    try {
+      const user: any = db.prepare("SELECT id, username, email, email_verified FROM users WHERE id = ?").get(req.user.id);
+      if (!user) return res.status(404).json({ error: "User not found" });
+      if (user.email_verified) return res.status(400).json({ error: "Email is already verified" });
+
+      sendVerificationEmail(user);
+      res.json({ message: `Verification email sent to ${user.email}` });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resend verification email" });
+    }
+  });
+
+  app.post("/api/auth/forgot-password", (req, res) => {
+    const { email } = req.body;
+    if (!email) return res.status(400).json({ error: "Email required" });
+    if (typeof email !== "string") return res.status(400).json({ error: "Invalid email" });
+
+    try {
+      const user: any = db.prepare("SELECT id, username, email FROM users WHERE email = ? AND deleted_at IS NULL").get(email);
+      if (user) {
+        const token = issueAuthToken(user.id, "password_reset", PASSWORD_RESET_TTL_MINUTES);
+        sendMail({
+          to: user.email,
+          subject: "Reset your ANKUR JOBS password",
+          text: `Hi ${user.username},\n\nUse this link to choose a new password. It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and works once:\n${APP_URL}/?reset_token=${token}\n\nIf you didn't ask for this, you can ignore this email.`,
+        });
+      }
+      // Same response either way so the endpoint doesn't reveal which emails are registered
+      res.json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to start password reset" });
+    }
+  });
+
+  app.post("/api/auth/reset-password/confirm", async (req, res) => {
+    const { token, newPassword } = req.body;
+    if (!token || !newPassword) return res.status(400).json({ error: "Token and new password required" });
+    if (typeof token !== "string" || typeof newPassword !== "string") return res.status(400).json({ error: "Invalid fields" });
+
+    try {
+      // Checked before the token is used up so a weak password doesn't burn the link
+      const pendingUserId = peekAuthToken(token, "password_reset");
+      if (!pendingUserId) return res.status(400).json({ error: "This reset link is invalid or has expired" });
+      const pendingUser: any = db.prepare("SELECT username, email FROM users WHERE id = ? AND deleted_at IS NULL").get(pendingUserId);
+      if (!pendingUser) return res.status(400).json({ error: "This reset link is invalid or has expired" });
+      if (rejectWeakPassword(res, newPassword, pendingUser)) return;
+
+      const userId = consumeAuthToken(token, "password_reset");
+      if (!userId) return res.status(400).json({ error: "This reset link is invalid or has expired" });
+
+      const hashedPassword = await bcrypt.hash(newPassword, 10);
+      db.prepare("UPDATE users SET password = ?, must_change_password = 0 WHERE id = ?").run(hashedPassword, userId);
+      revokeUserSessions(userId);
+      res.json({ message: "Password updated. You can now sign in." });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", authenticateToken, async (req: any, res) => {
+    const { currentPassword, newPassword } = req.body;
+    if (!currentPassword || !newPassword) return res.status(400).json({ error: "Current and new password required" });
+    
+    try {
+      const user: any = db.prepare("SELECT username, email, password FROM users WHERE id = ?").get(req.user.id);
+      if (!(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ error: "Current password is incorrect" });
+      }
+      if (rejectWeakPassword(res, newPassword, user)) return;
+      if (await bcrypt.compare(newPassword, user.password)) {
+        return res.status(400).json({ error: "Choose a password different from your current one" });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 10);
+      db.prepare("UPDATE users SET password = ?, must_change_password = 0 WHERE id = ?").run(hashedPassword, req.user.id);
+      revokeUserSessions(req.user.id, req.user.sid);
+      res.json({ message: "Password updated successfully" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
+  // Jobs Routes
+  app.get("/api/jobs", optionalAuth, (req: any, res) => {
+    if (req.query.saved === "1" && !req.user) {
+      return res.status(401).json({ error: "Sign in to see saved jobs" });
+    }
+    try {
+      const { whereSql, params } = buildJobFilters(req.query, req.user?.id);
+      const { page, pageSize, offset } = parsePagination(req.query);
+      const sort = req.query.sort as string;
+      const orderBy = Object.hasOwn(JOB_SORT_ORDERS, sort) ? JOB_SORT_ORDERS[sort] : JOB_SORT_ORDERS.newest;
+
+      const { count: total } = db.prepare(`SELECT COUNT(*) as count FROM jobs j ${whereSql}`).get(...params) as any;
+      const jobs = db.prepare(`SELECT j.* FROM jobs j ${whereSql} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+        .all(...params, pageSize, offset);
+
+      res.json({ jobs, total, page, pageSize, totalPages: Math.ceil(total / pageSize) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  // Relevance-ranked search; matched terms are wrapped in <mark></mark> in title_highlight and snippet
+  app.get("/api/jobs/search", optionalAuth, (req: any, res) => {
+    const ftsQuery = typeof req.query.q === "string" ? buildFtsQuery(req.query.q) : "";
+    if (!ftsQuery) {
+      return res.status(400).json({ error: "Search query required" });
+    }
+    if (req.query.saved === "1" && !req.user) {
+      return res.status(401).json({ error: "Sign in to see saved jobs" });
+    }
+
+    try {
+      const { whereSql, params } = buildJobFilters({ ...req.query, search: undefined }, req.user?.id);
+      const { page, pageSize, offset } = parsePagination(req.query);
+      const sort = req.query.sort as string;
+      const orderBy = Object.hasOwn(JOB_SORT_ORDERS, sort) ? JOB_SORT_ORDERS[sort] : "relevance, j.created_at DESC";
+      const matchSql = `FROM jobs_fts JOIN jobs j ON j.id = jobs_fts.rowid
+        WHERE jobs_fts MATCH ? ${whereSql.replace(/^WHERE/, "AND")}`;
+
+      const { count: total } = db.prepare(`SELECT COUNT(*) as count ${matchSql}`).get(ftsQuery, ...params) as any;
+      // Column weights follow the FTS column order: title, company, requirements, location, category
+      const jobs = db.prepare(`
+        SELECT j.*,
+          bm25(jobs_fts, 10.0, 5.0, 1.0, 3.0, 2.0) AS relevance,
+          highlight(jobs_fts, 0, '<mark>', '</mark>') AS title_highlight,
+          snippet(jobs_fts, 2, '<mark>', '</mark>', '…', 16) AS snippet
+        ${matchSql}
+        ORDER BY ${orderBy}
+        LIMIT ? OFFSET ?
+      `).all(ftsQuery, ...params, pageSize, offset);
+
+      res.json({ jobs, total, page, pageSize, totalPages: Math.ceil(total / pageSize) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to search jobs" });
+    }
+  });
+
+  app.post("/api/jobs", authenticateToken, requireVerifiedEmail, (req: any, res) => {
+    const { title, company, category, location, experience, salary, requirements, link, link_type, posted_by, expires_at } = req.body;
+    
+    if (!title || !company || !category || !link || !posted_by) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+    const expiryError = validateExpiry(expires_at);
+    if (expiryError) {
+      return res.status(400).json({ error: expiryError });
+    }
+
+    try {
+      const stmt = db.prepare(`
+        INSERT INTO jobs (title, company, category, location, experience, salary, requirements, link, link_type, posted_by, user_id, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(datetime(?), datetime('now', ?)))
+      `);
+      const info = stmt.run(
+        title, company, category, location, experience, salary, requirements, link, link_type || 'Other', posted_by, req.user.id,
+        expires_at || null, `+${JOB_LIFETIME_DAYS} days`
+      );
+
+      try {
+        notifySavedSearchMatches(info.lastInsertRowid);
+      } catch (error) {
+        // Alerts are best-effort; the job is already posted
+        console.error("Saved search alert error:", error);
+      }
+      res.status(201).json({ id: info.lastInsertRowid, ...req.body });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to post job" });
+    }
+  });
+
+  // Open jobs ranked by how well they match the user's profile. Only jobs sharing at least one skill are
+  // recommended; the user's own postings and jobs they already applied to are left out.
+  app.get("/api/jobs/recommended", authenticateToken, (req: any, res) => {
+    const limit = Math.min(20, Math.max(1, parseInt(req.query.limit, 10) || 6));
+    try {
+      const profileRow: any = db.prepare("SELECT user_id, location FROM profiles WHERE user_id = ?").get(req.user.id);
+      if (!profileRow) return res.json({ jobs: [] });
+      const [sections] = withProfileSections([profileRow]);
+      if (sections.skills.length === 0) return res.json({ jobs: [] });
+      const profile = { skills: sections.skills, years: yearsOfExperience(sections.experiences), location: profileRow.location };
+
+      const { whereSql, params } = buildJobFilters({});
+      const candidates = db.prepare(`
+        SELECT j.* FROM jobs j ${whereSql}
+          AND j.user_id IS NOT ?
+          AND j.id NOT IN (SELECT job_id FROM applications WHERE user_id = ?)
+      `).all(...params, req.user.id, req.user.id) as any[];
+
+      const jobs = candidates
+        .map(job => ({ job, match: scoreJobMatch(job, profile) }))
+        .filter(({ match }) => match.matchedSkills > 0)
+        .sort((a, b) => b.match.score - a.match.score || b.job.created_at.localeCompare(a.job.created_at))
+        .slice(0, limit)
+        .map(({ job, match }) => ({ ...job, match_score: match.score, match_reasons: match.reasons }));
+      res.json({ jobs });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recommended jobs" });
+    }
+  });
+
+  app.get("/api/jobs/mine", authenticateToken, (req: any, res) => {
+    try {
+      const jobs = db.prepare(`
+        SELECT j.*, (SELECT COUNT(*) FROM applications a WHERE a.job_id = j.id) as application_count
+        FROM jobs j
+        WHERE j.user_id = ? AND j.deleted_at IS NULL
+        ORDER BY j.created_at DESC
+      `).all(req.user.id);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch your postings" });
+    }
+  });
+
+  app.put("/api/jobs/:id", authenticateToken, (req: any, res) => {
+    const { title, company, category, location, experience, salary, requirements, link, link_type, status, expires_at } = req.body;
+
+    if (!title || !company || !category || !link) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+    if (status && !JOB_STATUSES.includes(status)) {
+      return res.status(400).json({ error: "Invalid job status" });
+    }
+
+    try {
+      const job: any = db.prepare("SELECT user_id, status, expires_at FROM jobs WHERE id = ? AND deleted_at IS NULL").get(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found" });
+      if (job.user_id !== req.user.id) {
+        return res.status(403).json({ error: "You can only edit your own postings" });
+      }
+
+      // Clients may echo back the stored expiry, which can already be past; only a new one is checked.
+      // A new future expiry brings an archived posting back onto the board, like renewing it.
+      const newExpiry = expires_at && expires_at !== job.expires_at ? expires_at : null;
+      const expiryError = validateExpiry(newExpiry);
+      if (expiryError) {
+        return res.status(400).json({ error: expiryError });
+      }
+
+      db.prepare(`
+        UPDATE jobs SET 
+          title = ?, company = ?, location = ?, category = ?, 
+          experience = ?, salary = ?, requirements = ?, link = ?, link_type = ?, status = ?,
+          expires_at = COALESCE(datetime(?), expires_at),
+          archived_at = CASE WHEN ? IS NULL THEN archived_at ELSE NULL END
+        WHERE id = ?
+      `).run(title, company, location, category, experience, salary, requirements, link, link_type || 'Other', status || job.status, newExpiry, newExpiry, req.params.id);
+      res.json({ message: "Job updated" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update job" });
+    }
+  });
+
+  app.post("/api/jobs/:id/renew", authenticateToken, (req: any, res) => {
+    try {
+      const job: any = db.prepare("SELECT user_id FROM jobs WHERE id = ? AND deleted_at IS NULL").get(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found" });
+      if (job.user_id !== req.user.id) {
+        return res.status(403).json({ error: "You can only renew your own postings" });
+      }
+
+      db.prepare("UPDATE jobs SET expires_at = datetime('now', ?), archived_at = NULL WHERE id = ?")
+        .run(`+${JOB_LIFETIME_DAYS} days`, req.params.id);
+      const renewed = db.prepare("SELECT expires_at FROM jobs WHERE id = ?").get(req.params.id) as any;
+      res.json({ message: "Job renewed", expires_at: renewed.expires_at });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to renew job" });
+    }
+  });
+
+  app.delete("/api/jobs/:id", authenticateToken, (req: any, res) => {
+    try {
+      const job: any = db.prepare("SELECT id, title, user_id FROM jobs WHERE id = ? AND deleted_at IS NULL").get(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found" });
+      if (job.user_id !== req.user.id) {
+        return res.status(403).json({ error: "You can only delete your own postings" });
+      }
+
+      softDeleteJob(job.id);
+      res.json({ message: "Job posting deleted" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete job posting" });
+    }
+  });
+
+  // Saved Jobs Routes
+  app.get("/api/saved-jobs", authenticateToken, (req: any, res) => {
+    try {
+      const jobs = db.prepare(`
+        SELECT j.*, s.created_at as saved_at
+        FROM saved_jobs s
+        JOIN jobs j ON s.job_id = j.id
+        WHERE s.user_id = ? AND j.deleted_at IS NULL
+        ORDER BY s.created_at DESC
+      `).all(req.user.id);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch saved jobs" });
+    }
+  });
+
+  app.post("/api/jobs/:id/save", authenticateToken, (req: any, res) => {
+    try {
+      const job = db.prepare("SELECT id FROM jobs WHERE id = ? AND deleted_at IS NULL").get(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found" });
+
+      db.prepare("INSERT OR IGNORE INTO saved_jobs (user_id, job_id) VALUES (?, ?)").run(req.user.id, req.params.id);
+      res.status(201).json({ message: "Job saved" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save job" });
+    }
+  });
+
+  app.delete("/api/jobs/:id/save", authenticateToken, (req: any, res) => {
+    try {
+      db.prepare("DELETE FROM saved_jobs WHERE user_id = ? AND job_id = ?").run(req.user.id, req.params.id);
+      res.json({ message: "Job removed from saved" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unsave job" });
+    }
+  });
+
+  // Notification Routes
+  app.get("/api/notifications", authenticateToken, (req: any, res) => {
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit, 10) || 20));
+    try {
+      const notifications = db.prepare("SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT ?")
+        .all(req.user.id, limit);
+      const { count } = db.prepare("SELECT COUNT(*) as count FROM notifications WHERE user_id = ? AND is_read = 0").get(req.user.id) as any;
+      res.json({ notifications, unreadCount: count });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.put("/api/notifications/read-all", authenticateToken, (req: any, res) => {
+    try {
+      db.prepare("UPDATE notifications SET is_read = 1 WHERE user_id = ? AND is_read = 0").run(req.user.id);
+      res.json({ message: "All notifications marked as read" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update notifications" });
+    }
+  });
+
+  app.put("/api/notifications/:id/read", authenticateToken, (req: any, res) => {
+    try {
+      const info = db.prepare("UPDATE notifications SET is_read = 1 WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+      if (info.changes === 0) return res.status(404).json({ error: "Notification not found" });
+      res.json({ message: "Notification marked as read" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update notification" });
+    }
+  });
+
+  // Saved Search Routes
+  app.get("/api/saved-searches", authenticateToken, (req: any, res) => {
+    try {
+      const searches = db.prepare("SELECT * FROM saved_searches WHERE user_id = ? ORDER BY created_at DESC").all(req.user.id);
+      res.json(searches);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch saved searches" });
     }
   });
-};
-
-async function startServer() {
-  const app = express();
-  const PORT = 3000;
-
-  app.use(express.json());
-  app.use("/uploads", express.static(uploadsDir));
 
-  // Seed default Admin user
-  const adminUser: any = db.prepare("SELECT * FROM users WHERE username = 'Admin'").get();
-  if (!adminUser) {
-    const hashedPassword = await bcrypt.hash("Admin", 10);
-    const info = db.prepare("INSERT INTO users (username, email, password, role) VALUES (?, ?, ?, ?)")
-      .run("Admin", "admin@ankur.com", hashedPassword, "admin");
-    db.prepare("INSERT INTO profiles (user_id, name) VALUES (?, ?)").run(info.lastInsertRowid, "Administrator");
-    console.log("Default Admin user created (Admin/Admin)");
-  }
-
-  // Promote first user to admin if no admin exists (fallback)
-  const adminCount: any = db.prepare("SELECT COUNT(*) as count FROM users WHERE role = 'admin'").get();
-  if (adminCount.count === 0) {
-    const firstUser: any = db.prepare("SELECT id FROM users ORDER BY id ASC LIMIT 1").get();
-    if (firstUser) {
-      db.prepare("UPDATE users SET role = 'admin' WHERE id = ?").run(firstUser.id);
-      console.log(`User ${firstUser.id} promoted to admin`);
+  app.post("/api/saved-searches", authenticateToken, (req: any, res) => {
+    const { name, category, experience, search, location } = req.body;
+    if (!name || !name.trim()) {
+      return res.status(400).json({ error: "Name is required" });
     }
-  }
 
-  // Upload Routes
-  app.post("/api/upload/resume", authenticateToken, upload.single("resume"), (req: any, res) => {
-    if (!req.file) {
-      return res.status(400).json({ error: "No file uploaded" });
+    try {
+      const info = db.prepare("INSERT INTO saved_searches (user_id, name, category, experience, search, location) VALUES (?, ?, ?, ?, ?, ?)")
+        .run(req.user.id, name.trim(), category || null, experience || null, search || null, location || null);
+      const saved = db.prepare("SELECT * FROM saved_searches WHERE id = ?").get(info.lastInsertRowid);
+      res.status(201).json(saved);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save search" });
     }
-    const fileUrl = `/uploads/${req.file.filename}`;
-    res.json({ url: fileUrl });
   });
 
-  app.post("/api/upload/photo", authenticateToken, upload.single("photo"), (req: any, res) => {
-    if (!req.file) {
-      return res.status(400).json({ error: "No file uploaded" });
+  // Called when the user re-runs a saved search, clearing its "new matches" badge
+  app.put("/api/saved-searches/:id/seen", authenticateToken, (req: any, res) => {
+    try {
+      db.prepare("UPDATE saved_searches SET new_match_count = 0 WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+      res.json({ message: "Saved search marked as seen" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update saved search" });
     }
-    const fileUrl = `/uploads/${req.file.filename}`;
-    res.json({ url: fileUrl });
   });
 
-  // Auth Routes
-  app.post("/api/auth/register", async (req, res) => {
-    const { username, email, password, phone } = req.body;
-    if (!username || !email || !password) {
-      return res.status(400).json({ error: "Missing fields" });
+  app.delete("/api/saved-searches/:id", authenticateToken, (req: any, res) => {
+    try {
+      const info = db.prepare("DELETE FROM saved_searches WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+      if (info.changes === 0) return res.status(404).json({ error: "Saved search not found" });
+      res.json({ message: "Saved search deleted" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete saved search" });
     }
+  });
 
+  // Application Routes
+  app.post("/api/jobs/:id/apply", authenticateToken, requireVerifiedEmail, (req: any, res) => {
+    const { cover_note } = req.body;
     try {
-      const hashedPassword = await bcrypt.hash(password, 10);
-      const stmt = db.prepare("INSERT INTO users (username, email, password, phone) VALUES (?, ?, ?, ?)");
-      const info = stmt.run(username, email, hashedPassword, phone || null);
-      
-      // Create initial profile
-      db.prepare("INSERT INTO profiles (user_id, name) VALUES (?, ?)").run(info.lastInsertRowid, username);
-      
-      const token = jwt.sign({ id: info.lastInsertRowid, username, email, role: 'user' }, JWT_SECRET);
-      res.status(201).json({ token, user: { id: info.lastInsertRowid, username, email, role: 'user' } });
+      const job: any = db.prepare("SELECT id, title, user_id, status, archived_at FROM jobs WHERE id = ? AND deleted_at IS NULL").get(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found" });
+      if (job.status !== "open" || job.archived_at) {
+        return res.status(400).json({ error: "This job is no longer accepting applications" });
+      }
+      if (job.user_id === req.user.id) {
+        return res.status(400).json({ error: "You cannot apply to your own posting" });
+      }
+
+      const profile: any = db.prepare("SELECT resume_url FROM profiles WHERE user_id = ?").get(req.user.id);
+      if (!profile?.resume_url) {
+        return res.status(400).json({ error: "Please add a resume to your profile before applying" });
+      }
+
+      // The resume is copied so later profile edits don't change what the poster received
+      const info = db.transaction(() => {
+        const result = db.prepare("INSERT INTO applications (job_id, user_id, cover_note, resume_url) VALUES (?, ?, ?, ?)")
+          .run(job.id, req.user.id, cover_note || null, profile.resume_url);
+        db.prepare("INSERT INTO application_status_history (application_id, to_status, changed_by) VALUES (?, 'applied', ?)")
+          .run(result.lastInsertRowid, req.user.id);
+        return result;
+      })();
+      if (job.user_id) {
+        createNotification(job.user_id, "application", `New applicant for ${job.title}`, `${req.user.username} applied to your posting`, "postings");
+      }
+      res.status(201).json({ id: info.lastInsertRowid, job_id: job.id, status: "applied" });
     } catch (error: any) {
       if (error.message.includes("UNIQUE")) {
-        return res.status(400).json({ error: "Username or email already exists" });
+        return res.status(400).json({ error: "You have already applied to this job" });
       }
-      res.status(500).json({ error: "Registration failed" });
+      res.status(500).json({ error: "Failed to submit application" });
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
-    const { identifier, password } = req.body; // changed email to identifier
+  app.get("/api/jobs/:id/applications", authenticateToken, (req: any, res) => {
     try {
-      const user: any = db.prepare("SELECT * FROM users WHERE email = ? OR username = ?").get(identifier, identifier);
-      if (!user || !(await bcrypt.compare(password, user.password))) {
-        return res.status(401).json({ error: "Invalid credentials" });
+      const job: any = db.prepare("SELECT id, user_id FROM jobs WHERE id = ? AND deleted_at IS NULL").get(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found" });
+      // The token's role can be stale after a role change, so check the current one
+      const viewerRole = (db.prepare("SELECT role FROM users WHERE id = ?").get(req.user.id) as any)?.role;
+      if (job.user_id !== req.user.id && !hasPermission(viewerRole, "applications.view_all")) {
+        return res.status(403).json({ error: "Only the poster can view applicants" });
       }
 
-      const token = jwt.sign({ id: user.id, username: user.username, email: user.email, role: user.role }, JWT_SECRET);
-      res.json({ token, user: { id: user.id, username: user.username, email: user.email, is_public: user.is_public, role: user.role } });
+      const applications = db.prepare(`
+        SELECT a.*, u.username, u.email, p.name, p.photo_url, p.contact_details, p.location,
+          p.portfolio_url, p.linkedin_url, p.github_url
+        FROM applications a
+        JOIN users u ON a.user_id = u.id
+        LEFT JOIN profiles p ON p.user_id = a.user_id
+        WHERE a.job_id = ? AND u.deleted_at IS NULL
+        ORDER BY a.created_at DESC
+      `).all(job.id) as any[];
+      res.json(withProfileSections(applications).map(a => ({ ...a, next_statuses: nextStatusesFor(a.status, false) })));
     } catch (error) {
-      res.status(500).json({ error: "Login failed" });
+      res.status(500).json({ error: "Failed to fetch applicants" });
     }
   });
 
-  app.post("/api/auth/forgot-password", (req, res) => {
-    // Mock password reset
-    const { email } = req.body;
-    const user = db.prepare("SELECT id FROM users WHERE email = ?").get(email);
-    if (!user) return res.status(404).json({ error: "User not found" });
-    
-    res.json({ message: "If an account exists, a reset link has been sent (Mocked)" });
-  });
-
-  app.post("/api/auth/reset-password", authenticateToken, async (req: any, res) => {
-    const { newPassword } = req.body;
-    if (!newPassword) return res.status(400).json({ error: "New password required" });
-    
+  app.get("/api/applications/me", authenticateToken, (req: any, res) => {
     try {
-      const hashedPassword = await bcrypt.hash(newPassword, 10);
-      db.prepare("UPDATE users SET password = ? WHERE id = ?").run(hashedPassword, req.user.id);
-      res.json({ message: "Password updated successfully" });
+      const applications = db.prepare(`
+        SELECT a.*, j.title, j.company, j.location, j.link
+        FROM applications a
+        JOIN jobs j ON a.job_id = j.id
+        WHERE a.user_id = ? AND j.deleted_at IS NULL
+        ORDER BY a.created_at DESC
+      `).all(req.user.id) as any[];
+      res.json(applications.map(a => ({ ...a, next_statuses: nextStatusesFor(a.status, true) })));
     } catch (error) {
-      res.status(500).json({ error: "Failed to reset password" });
+      res.status(500).json({ error: "Failed to fetch applications" });
     }
   });
 
-  // Jobs Routes
-  app.get("/api/jobs", (req, res) => {
+  app.put("/api/applications/:id/status", authenticateToken, (req: any, res) => {
+    const { status, note } = req.body;
     try {
-      const jobs = db.prepare("SELECT * FROM jobs ORDER BY created_at DESC").all();
-      res.json(jobs);
+      const application: any = db.prepare(`
+        SELECT a.*, j.user_id as poster_id, j.title FROM applications a JOIN jobs j ON a.job_id = j.id WHERE a.id = ? AND j.deleted_at IS NULL
+      `).get(req.params.id);
+      if (!application) return res.status(404).json({ error: "Application not found" });
+
+      const isApplicant = application.user_id === req.user.id;
+      if (!isApplicant && application.poster_id !== req.user.id) {
+        return res.status(403).json({ error: "Not allowed to update this application" });
+      }
+      if (!nextStatusesFor(application.status, isApplicant).includes(status)) {
+        return res.status(400).json({ error: `Cannot move application from ${application.status} to ${status}` });
+      }
+
+      db.transaction(() => {
+        db.prepare("UPDATE applications SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(status, application.id);
+        db.prepare("INSERT INTO application_status_history (application_id, from_status, to_status, note, changed_by) VALUES (?, ?, ?, ?, ?)")
+          .run(application.id, application.status, status, isApplicant ? null : note || null, req.user.id);
+      })();
+      if (isApplicant) {
+        createNotification(application.poster_id, "application", `Application withdrawn for ${application.title}`, `${req.user.username} withdrew their application`, "postings");
+      } else {
+        createNotification(application.user_id, "application", `Application update for ${application.title}`, `Your application moved to ${status}`, "applications");
+      }
+      res.json({ id: application.id, status, next_statuses: nextStatusesFor(status, isApplicant) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch jobs" });
+      res.status(500).json({ error: "Failed to update application status" });
     }
   });
 
-  app.post("/api/jobs", authenticateToken, (req: any, res) => {
-    const { title, company, category, location, experience, salary, requirements, link, link_type, posted_by } = req.body;
-    
-    if (!title || !company || !category || !link || !posted_by) {
-      return res.status(400).json({ error: "Missing required fields" });
-    }
-
+  app.get("/api/applications/:id/history", authenticateToken, (req: any, res) => {
     try {
-      const stmt = db.prepare(
-        "INSERT INTO jobs (title, company, category, location, experience, salary, requirements, link, link_type, posted_by, user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
-      );
-      const info = stmt.run(title, company, category, location, experience, salary, requirements, link, link_type || 'Other', posted_by, req.user.id);
-      res.status(201).json({ id: info.lastInsertRowid, ...req.body });
+      const application: any = db.prepare(`
+        SELECT a.user_id, j.user_id as poster_id FROM applications a JOIN jobs j ON a.job_id = j.id WHERE a.id = ? AND j.deleted_at IS NULL
+      `).get(req.params.id);
+      if (!application) return res.status(404).json({ error: "Application not found" });
+
+      const isPoster = application.poster_id === req.user.id;
+      if (!isPoster && application.user_id !== req.user.id) {
+        return res.status(403).json({ error: "Not allowed to view this application" });
+      }
+
+      const history = db.prepare(`
+        SELECT h.id, h.from_status, h.to_status, h.note, h.created_at, u.username as changed_by
+        FROM application_status_history h
+        JOIN users u ON h.changed_by = u.id
+        WHERE h.application_id = ?
+        ORDER BY h.created_at ASC, h.id ASC
+      `).all(req.params.id) as any[];
+      // Notes are private to the poster
+      res.json(isPoster ? history : history.map(({ note, ...entry }) => entry));
     } catch (error) {
-      res.status(500).json({ error: "Failed to post job" });
+      res.status(500).json({ error: "Failed to fetch application history" });
     }
   });
 
   // Profile Routes
   app.get("/api/profile/me", authenticateToken, (req: any, res) => {
     try {
-      const profile = db.prepare("SELECT p.*, u.email, u.username, u.is_public, u.role FROM profiles p JOIN users u ON p.user_id = u.id WHERE p.user_id = ?").get(req.user.id);
-      res.json(profile);
+      const profile: any = db.prepare("SELECT p.*, u.email, u.username, u.is_public, u.role, u.email_verified, u.phone, u.phone_verified, u.totp_enabled, u.must_change_password FROM profiles p JOIN users u ON p.user_id = u.id WHERE p.user_id = ?").get(req.user.id);
+      res.json(profile && { ...withProfileSections([profile])[0], permissions: permissionsFor(profile.role) });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch profile" });
     }
@@ -299,21 +2702,18 @@ async function startServer() {
 
   app.put("/api/profile/me", authenticateToken, (req: any, res) => {
     const { 
-      name, photo_url, contact_details, location, 
-      skills, experience, education, resume_url, 
+      name, photo_url, contact_details, location, resume_url, 
       portfolio_url, linkedin_url, github_url, is_public 
     } = req.body;
     try {
       db.prepare(`
         UPDATE profiles SET 
-          name = ?, photo_url = ?, contact_details = ?, location = ?,
-          skills = ?, experience = ?, education = ?, resume_url = ?,
+          name = ?, photo_url = ?, contact_details = ?, location = ?, resume_url = ?,
           portfolio_url = ?, linkedin_url = ?, github_url = ?,
           updated_at = CURRENT_TIMESTAMP 
         WHERE user_id = ?
       `).run(
-        name, photo_url, contact_details, location,
-        skills, experience, education, resume_url,
+        name, photo_url, contact_details, location, resume_url,
         portfolio_url, linkedin_url, github_url, req.user.id
       );
       
@@ -328,97 +2728,368 @@ async function startServer() {
     }
   });
 
+  // Skill suggestions for the profile editor, most used first
+  app.get("/api/skills", authenticateToken, (req, res) => {
+    const q = typeof req.query.q === "string" ? skillSlug(req.query.q) : "";
+    try {
+      const skills = db.prepare(`
+        SELECT s.name, COUNT(ps.user_id) AS uses FROM skills s LEFT JOIN profile_skills ps ON ps.skill_id = s.id
+        WHERE s.slug LIKE ? GROUP BY s.id HAVING uses > 0 ORDER BY uses DESC, s.slug LIMIT 10
+      `).all(`${q}%`);
+      res.json(skills);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch skills" });
+    }
+  });
+
+  // Replaces the whole skill list; names are normalized into shared tags
+  app.put("/api/profile/me/skills", authenticateToken, (req: any, res) => {
+    const { skills } = req.body;
+    if (!Array.isArray(skills)) return res.status(400).json({ error: "Skills must be a list" });
+    if (skills.length > MAX_PROFILE_SKILLS) return res.status(400).json({ error: `You can list up to ${MAX_PROFILE_SKILLS} skills` });
+    try {
+      setProfileSkills(req.user.id, skills);
+      db.prepare("UPDATE profiles SET updated_at = CURRENT_TIMESTAMP WHERE user_id = ?").run(req.user.id);
+      res.json({ skills: withProfileSections([{ user_id: req.user.id }])[0].skills });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update skills" });
+    }
+  });
+
+  for (const [path, entryType] of Object.entries(PROFILE_ENTRY_TYPES)) {
+    app.post(`/api/profile/me/${path}`, authenticateToken, (req: any, res) => {
+      const entry = readProfileEntry(entryType, req.body);
+      if (entry.error) return res.status(400).json({ error: entry.error });
+      try {
+        const info = db.prepare(`
+          INSERT INTO ${entryType.table} (user_id, ${entryType.fields.join(", ")})
+          VALUES (?, ${entryType.fields.map(() => "?").join(", ")})
+        `).run(req.user.id, ...entry.values!);
+        db.prepare("UPDATE profiles SET updated_at = CURRENT_TIMESTAMP WHERE user_id = ?").run(req.user.id);
+        res.status(201).json({ id: info.lastInsertRowid });
+      } catch (error) {
+        res.status(500).json({ error: "Failed to add entry" });
+      }
+    });
+
+    app.put(`/api/profile/me/${path}/:id`, authenticateToken, (req: any, res) => {
+      const entry = readProfileEntry(entryType, req.body);
+      if (entry.error) return res.status(400).json({ error: entry.error });
+      try {
+        const info = db.prepare(`
+          UPDATE ${entryType.table} SET ${entryType.fields.map(field => `${field} = ?`).join(", ")}
+          WHERE id = ? AND user_id = ?
+        `).run(...entry.values!, req.params.id, req.user.id);
+        if (info.changes === 0) return res.status(404).json({ error: "Entry not found" });
+        db.prepare("UPDATE profiles SET updated_at = CURRENT_TIMESTAMP WHERE user_id = ?").run(req.user.id);
+        res.json({ message: "Entry updated" });
+      } catch (error) {
+        res.status(500).json({ error: "Failed to update entry" });
+      }
+    });
+
+    app.delete(`/api/profile/me/${path}/:id`, authenticateToken, (req: any, res) => {
+      try {
+        const info = db.prepare(`DELETE FROM ${entryType.table} WHERE id = ? AND user_id = ?`).run(req.params.id, req.user.id);
+        if (info.changes === 0) return res.status(404).json({ error: "Entry not found" });
+        res.json({ message: "Entry removed" });
+      } catch (error) {
+        res.status(500).json({ error: "Failed to remove entry" });
+      }
+    });
+  }
+
+  // Public directory of profiles whose owners opted in with is_public
+  app.get("/api/profiles", authenticateToken, (req, res) => {
+    try {
+      const { rows, ...pagination } = searchPublicProfiles(req.query);
+      res.json({ profiles: rows, ...pagination });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch profiles" });
+    }
+  });
+
+  // Hidden profiles answer 404 like missing ones, except to their owner. Contact details are for recruiters only.
+  app.get("/api/profiles/:username", authenticateToken, (req: any, res) => {
+    try {
+      const profile: any = db.prepare(`
+        SELECT ${PROFILE_LIST_COLUMNS}, p.contact_details, u.is_public, u.is_suspended, u.created_at
+        FROM profiles p JOIN users u ON p.user_id = u.id
+        WHERE u.username = ? AND u.deleted_at IS NULL
+      `).get(req.params.username);
+      const isOwner = profile?.user_id === req.user.id;
+      if (!profile || (!isOwner && (!profile.is_public || profile.is_suspended))) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const [{ is_suspended, ...visible }] = withProfileSections([profile]);
+      const viewerRole = (db.prepare("SELECT role FROM users WHERE id = ?").get(req.user.id) as any)?.role;
+      if (!isOwner && !hasPermission(viewerRole, "candidates.search")) visible.contact_details = null;
+      res.json(visible);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch profile" });
+    }
+  });
+
+  // Candidate search for recruiters: public profiles only, matched on name, skills, experience and education
+  app.get("/api/candidates", requirePermission("candidates.search"), (req, res) => {
+    try {
+      const { rows, ...pagination } = searchPublicProfiles(req.query);
+      res.json({ candidates: rows, ...pagination });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to search candidates" });
+    }
+  });
+
   // Admin Routes
-  app.get("/api/admin/users", authenticateAdmin, (req, res) => {
+  app.get("/api/admin/users", requirePermission("users.view"), (req, res) => {
     try {
-      const users = db.prepare("SELECT id, username, email, role, is_suspended, created_at FROM users").all();
+      const users = db.prepare("SELECT id, username, email, role, is_suspended, totp_enabled, created_at FROM users WHERE deleted_at IS NULL").all();
       res.json(users);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch users" });
     }
   });
 
-  app.put("/api/admin/users/:id/suspend", authenticateAdmin, (req, res) => {
+  app.put("/api/admin/users/:id/suspend", requirePermission("users.manage"), (req, res) => {
     const { is_suspended } = req.body;
     try {
+      const before = auditUserSnapshot(req.params.id);
+      if (!before) return res.status(404).json({ error: "User not found" });
       db.prepare("UPDATE users SET is_suspended = ? WHERE id = ?").run(is_suspended ? 1 : 0, req.params.id);
+      if (is_suspended) revokeUserSessions(req.params.id);
+      recordAudit(req, is_suspended ? "user.suspend" : "user.unsuspend", { type: "user", id: before.id, label: before.username },
+        { is_suspended: before.is_suspended }, { is_suspended: is_suspended ? 1 : 0 });
+      createNotification(Number(req.params.id), "account", is_suspended ? "Your account was suspended" : "Your account was reinstated");
       res.json({ message: `User ${is_suspended ? 'suspended' : 'unsuspended'}` });
     } catch (error) {
       res.status(500).json({ error: "Failed to update user status" });
     }
   });
 
-  app.delete("/api/admin/users/:id", authenticateAdmin, (req, res) => {
+  app.delete("/api/admin/users/:id", requirePermission("users.manage"), (req: any, res) => {
     try {
-      db.prepare("DELETE FROM profiles WHERE user_id = ?").run(req.params.id);
-      db.prepare("DELETE FROM jobs WHERE user_id = ?").run(req.params.id);
-      db.prepare("DELETE FROM users WHERE id = ?").run(req.params.id);
-      res.json({ message: "User deleted" });
+      const before = auditProfileSnapshot(req.params.id);
+      if (!before) return res.status(404).json({ error: "User not found" });
+      if (Number(req.params.id) === req.user.id) return res.status(400).json({ error: "You can't delete your own account" });
+      softDeleteUser(req.params.id);
+      recordAudit(req, "user.delete", { type: "user", id: req.params.id, label: before.username }, before, null);
+      res.json({ message: `User moved to trash. It can be restored for ${TRASH_RETENTION_DAYS} days.` });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete user" });
     }
   });
 
-  app.put("/api/admin/users/:id/reset-password", authenticateAdmin, async (req, res) => {
+  app.put("/api/admin/users/:id/reset-password", requirePermission("users.manage"), async (req, res) => {
     const { newPassword } = req.body;
     try {
+      const target: any = db.prepare("SELECT username, email FROM users WHERE id = ?").get(req.params.id);
+      if (!target) return res.status(404).json({ error: "User not found" });
+      if (rejectWeakPassword(res, newPassword, target)) return;
+
       const hashedPassword = await bcrypt.hash(newPassword, 10);
       db.prepare("UPDATE users SET password = ? WHERE id = ?").run(hashedPassword, req.params.id);
+      revokeUserSessions(req.params.id);
+      recordAudit(req, "user.reset_password", { type: "user", id: req.params.id, label: target.username });
+      createNotification(Number(req.params.id), "account", "Your password was reset by an admin", "Contact an admin if you did not request this");
       res.json({ message: "Password reset successful" });
     } catch (error) {
       res.status(500).json({ error: "Failed to reset password" });
     }
   });
 
-  app.delete("/api/admin/jobs/:id", authenticateAdmin, (req, res) => {
+  app.delete("/api/admin/users/:id/sessions", requirePermission("users.manage"), (req, res) => {
+    try {
+      const target = auditUserSnapshot(req.params.id);
+      if (!target) return res.status(404).json({ error: "User not found" });
+      revokeUserSessions(req.params.id);
+      recordAudit(req, "user.revoke_sessions", { type: "user", id: target.id, label: target.username });
+      res.json({ message: "All sessions revoked" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke sessions" });
+    }
+  });
+
+  // For users locked out of their authenticator; they can enroll again after signing in with a password
+  app.delete("/api/admin/users/:id/2fa", requirePermission("users.manage"), (req, res) => {
+    try {
+      const target = auditUserSnapshot(req.params.id);
+      if (!target) return res.status(404).json({ error: "User not found" });
+      db.transaction(() => {
+        db.prepare("UPDATE users SET totp_enabled = 0, totp_secret = NULL, totp_last_step = NULL WHERE id = ?").run(req.params.id);
+        db.prepare("DELETE FROM mfa_backup_codes WHERE user_id = ?").run(req.params.id);
+      })();
+      revokeUserSessions(req.params.id);
+      recordAudit(req, "user.reset_2fa", { type: "user", id: target.id, label: target.username });
+      createNotification(Number(req.params.id), "account", "Your two-factor authentication was reset by an admin", "Set it up again from your account settings");
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  app.put("/api/admin/users/:id/role", requirePermission("users.roles"), (req: any, res) => {
+    const { role } = req.body;
+    if (!ROLES.includes(role)) return res.status(400).json({ error: `Role must be one of: ${ROLES.join(", ")}` });
+    if (Number(req.params.id) === req.user.id) return res.status(400).json({ error: "You can't change your own role" });
+
+    try {
+      const before = auditUserSnapshot(req.params.id);
+      if (!before) return res.status(404).json({ error: "User not found" });
+      db.prepare("UPDATE users SET role = ? WHERE id = ?").run(role, req.params.id);
+      recordAudit(req, "user.change_role", { type: "user", id: before.id, label: before.username }, { role: before.role }, { role });
+      createNotification(Number(req.params.id), "account", `Your role was changed to ${role}`);
+      res.json({ message: "Role updated", role, permissions: permissionsFor(role) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update role" });
+    }
+  });
+
+  // Sign-in security: current lockouts and recent failed attempts
+  app.get("/api/admin/security/lockouts", requirePermission("security.manage"), (req, res) => {
+    try {
+      const lockouts = db.prepare(`
+        SELECT id, scope, label, failures, last_failure_at, locked_until, locked_until > datetime('now') AS is_locked
+        FROM login_lockouts
+        WHERE locked_until > datetime('now') OR last_failure_at > datetime('now', ?)
+        ORDER BY is_locked DESC, last_failure_at DESC
+      `).all(`-${LOGIN_LOCKOUT_MINUTES} minutes`);
+      res.json(lockouts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch lockouts" });
+    }
+  });
+
+  app.delete("/api/admin/security/lockouts/:id", requirePermission("security.manage"), (req, res) => {
+    try {
+      const lockout: any = db.prepare("SELECT * FROM login_lockouts WHERE id = ?").get(req.params.id);
+      if (!lockout) return res.status(404).json({ error: "Lockout not found" });
+      db.prepare("DELETE FROM login_lockouts WHERE id = ?").run(lockout.id);
+      recordAudit(req, "security.clear_lockout", { type: "lockout", id: lockout.id, label: `${lockout.scope}: ${lockout.label}` },
+        { failures: lockout.failures, locked_until: lockout.locked_until }, null);
+      res.json({ message: "Lockout cleared" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to clear lockout" });
+    }
+  });
+
+  app.get("/api/admin/security/login-attempts", requirePermission("security.manage"), (req, res) => {
+    try {
+      const attempts = db.prepare(`
+        SELECT a.*, u.username FROM login_attempts a LEFT JOIN users u ON a.user_id = u.id
+        ORDER BY a.created_at DESC, a.id DESC LIMIT 100
+      `).all();
+      res.json(attempts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch login attempts" });
+    }
+  });
+
+  app.get("/api/admin/jobs", requirePermission("jobs.moderate"), (req, res) => {
+    // ?archived=1 lists only archived postings, ?archived=0 only live ones; all by default
+    const archivedFilter = req.query.archived === "1" ? "AND archived_at IS NOT NULL"
+      : req.query.archived === "0" ? "AND archived_at IS NULL" : "";
+    try {
+      const jobs = db.prepare(`SELECT * FROM jobs WHERE deleted_at IS NULL ${archivedFilter} ORDER BY created_at DESC`).all();
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  app.delete("/api/admin/jobs/:id", requirePermission("jobs.moderate"), (req, res) => {
     try {
-      db.prepare("DELETE FROM jobs WHERE id = ?").run(req.params.id);
+      const job = auditJobSnapshot(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found" });
+      softDeleteJob(job.id);
+      recordAudit(req, "job.delete", { type: "job", id: job.id, label: job.title }, job, null);
+      if (job.user_id) {
+        createNotification(job.user_id, "moderation", "Your job posting was removed", `An admin removed "${job.title}"`, "postings");
+      }
       res.json({ message: "Job posting removed" });
     } catch (error) {
       res.status(500).json({ error: "Failed to remove job posting" });
     }
   });
 
-  app.put("/api/admin/users/:id/clear-socials", authenticateAdmin, (req, res) => {
+  app.put("/api/admin/users/:id/clear-socials", requirePermission("profiles.moderate"), (req: any, res) => {
     try {
+      const before = auditProfileSnapshot(req.params.id);
+      if (!before) return res.status(404).json({ error: "User not found" });
+      if (outranks(before.role, req.user.role)) {
+        return res.status(403).json({ error: "You can't moderate an account with more permissions than yours" });
+      }
       db.prepare(`
         UPDATE profiles 
         SET linkedin_url = NULL, github_url = NULL, portfolio_url = NULL 
         WHERE user_id = ?
       `).run(req.params.id);
+      recordAudit(req, "profile.clear_socials", { type: "user", id: req.params.id, label: before.username },
+        { linkedin_url: before.linkedin_url, github_url: before.github_url, portfolio_url: before.portfolio_url },
+        { linkedin_url: null, github_url: null, portfolio_url: null });
+      createNotification(Number(req.params.id), "moderation", "Your social links were removed by an admin");
       res.json({ message: "Social links removed" });
     } catch (error) {
       res.status(500).json({ error: "Failed to clear social links" });
     }
   });
 
-  app.put("/api/admin/users/:id/clear-profile", authenticateAdmin, (req, res) => {
+  app.put("/api/admin/users/:id/clear-profile", requirePermission("profiles.moderate"), (req: any, res) => {
     try {
-      db.prepare(`
-        UPDATE profiles 
-        SET skills = NULL, experience = NULL, education = NULL, contact_details = NULL 
-        WHERE user_id = ?
-      `).run(req.params.id);
+      const before = auditProfileSnapshot(req.params.id);
+      if (!before) return res.status(404).json({ error: "User not found" });
+      if (outranks(before.role, req.user.role)) {
+        return res.status(403).json({ error: "You can't moderate an account with more permissions than yours" });
+      }
+      db.transaction(() => {
+        db.prepare("UPDATE profiles SET contact_details = NULL WHERE user_id = ?").run(req.params.id);
+        db.prepare("DELETE FROM profile_skills WHERE user_id = ?").run(req.params.id);
+        db.prepare("DELETE FROM work_experiences WHERE user_id = ?").run(req.params.id);
+        db.prepare("DELETE FROM education_entries WHERE user_id = ?").run(req.params.id);
+      })();
+      recordAudit(req, "profile.clear_content", { type: "user", id: req.params.id, label: before.username },
+        { skills: before.skills, experiences: before.experiences, education: before.education, contact_details: before.contact_details },
+        { skills: [], experiences: [], education: [], contact_details: null });
+      createNotification(Number(req.params.id), "moderation", "Your profile content was cleared by an admin");
       res.json({ message: "Profile content cleared" });
     } catch (error) {
       res.status(500).json({ error: "Failed to clear profile content" });
     }
   });
 
-  app.put("/api/admin/users/:id/profile", authenticateAdmin, (req, res) => {
-    const { name, email, role, photo_url, contact_details, location, skills, experience, education, resume_url, portfolio_url, linkedin_url, github_url, is_public } = req.body;
+  app.put("/api/admin/users/:id/profile", requirePermission("profiles.moderate"), (req: any, res) => {
+    const { name, email, role, photo_url, contact_details, location, skills, resume_url, portfolio_url, linkedin_url, github_url, is_public } = req.body;
     try {
+      const target = auditProfileSnapshot(req.params.id);
+      if (!target) return res.status(404).json({ error: "User not found" });
+      if (outranks(target.role, req.user.role)) {
+        return res.status(403).json({ error: "You can't moderate an account with more permissions than yours" });
+      }
+      // Moderators may edit profile content, but account email and role stay with admins
+      if (email && email !== target.email && !hasPermission(req.user.role, "users.manage")) {
+        return res.status(403).json({ error: "You don't have permission to change a user's email" });
+      }
+      if (role && role !== target.role) {
+        if (!hasPermission(req.user.role, "users.roles")) return res.status(403).json({ error: "You don't have permission to change roles" });
+        if (!ROLES.includes(role)) return res.status(400).json({ error: "Unknown role" });
+        if (Number(req.params.id) === req.user.id) return res.status(400).json({ error: "You can't change your own role" });
+      }
+
+      if (skills !== undefined && !Array.isArray(skills)) return res.status(400).json({ error: "Skills must be a list" });
+
       db.prepare(`
         UPDATE profiles SET 
-          name = ?, photo_url = ?, contact_details = ?, location = ?, 
-          skills = ?, experience = ?, education = ?, resume_url = ?, 
-          portfolio_url = ?, linkedin_url = ?, github_url = ?, is_public = ?
+          name = ?, photo_url = ?, contact_details = ?, location = ?, resume_url = ?, 
+          portfolio_url = ?, linkedin_url = ?, github_url = ?
         WHERE user_id = ?
-      `).run(name, photo_url, contact_details, location, skills, experience, education, resume_url, portfolio_url, linkedin_url, github_url, is_public ? 1 : 0, req.params.id);
+      `).run(name, photo_url, contact_details, location, resume_url, portfolio_url, linkedin_url, github_url, req.params.id);
+      // Work history and education are moderated with clear-profile; only the skill tags can be rewritten here
+      if (skills) setProfileSkills(req.params.id, skills);
       
-      if (email || role) {
-        db.prepare("UPDATE users SET email = ?, role = ? WHERE id = ?").run(email, role, req.params.id);
-      }
+      db.prepare("UPDATE users SET email = ?, role = ?, is_public = ? WHERE id = ?")
+        .run(email || target.email, role || target.role, is_public === undefined ? target.is_public : is_public ? 1 : 0, req.params.id);
+      recordAudit(req, "profile.edit", { type: "user", id: req.params.id, label: target.username }, target, auditProfileSnapshot(req.params.id));
+      createNotification(Number(req.params.id), "moderation", "Your profile was updated by an admin");
       
       res.json({ message: "User profile updated by admin" });
     } catch (error) {
@@ -426,27 +3097,33 @@ async function startServer() {
     }
   });
 
-  app.put("/api/admin/jobs/:id", authenticateAdmin, (req, res) => {
+  app.put("/api/admin/jobs/:id", requirePermission("jobs.moderate"), (req, res) => {
     const { title, company, location, category, experience, salary, requirements, link, link_type } = req.body;
     try {
+      const before = auditJobSnapshot(req.params.id);
+      if (!before) return res.status(404).json({ error: "Job not found" });
       db.prepare(`
         UPDATE jobs SET 
           title = ?, company = ?, location = ?, category = ?, 
           experience = ?, salary = ?, requirements = ?, link = ?, link_type = ?
         WHERE id = ?
       `).run(title, company, location, category, experience, salary, requirements, link, link_type, req.params.id);
+      recordAudit(req, "job.edit", { type: "job", id: before.id, label: title || before.title }, before, auditJobSnapshot(req.params.id));
+      if (before.user_id) {
+        createNotification(before.user_id, "moderation", "Your job posting was edited by an admin", title, "postings");
+      }
       res.json({ message: "Job updated by admin" });
     } catch (error) {
       res.status(500).json({ error: "Failed to update job" });
     }
   });
 
-  app.get("/api/admin/stats", authenticateAdmin, (req, res) => {
+  app.get("/api/admin/stats", requirePermission("admin.panel"), (req, res) => {
     try {
-      const totalUsers = db.prepare("SELECT COUNT(*) as count FROM users").get() as any;
-      const totalJobs = db.prepare("SELECT COUNT(*) as count FROM jobs").get() as any;
-      const suspendedUsers = db.prepare("SELECT COUNT(*) as count FROM users WHERE is_suspended = 1").get() as any;
-      const recentJobs = db.prepare("SELECT COUNT(*) as count FROM jobs WHERE created_at > datetime('now', '-7 days')").get() as any;
+      const totalUsers = db.prepare("SELECT COUNT(*) as count FROM users WHERE deleted_at IS NULL").get() as any;
+      const totalJobs = db.prepare("SELECT COUNT(*) as count FROM jobs WHERE deleted_at IS NULL").get() as any;
+      const suspendedUsers = db.prepare("SELECT COUNT(*) as count FROM users WHERE is_suspended = 1 AND deleted_at IS NULL").get() as any;
+      const recentJobs = db.prepare("SELECT COUNT(*) as count FROM jobs WHERE created_at > datetime('now', '-7 days') AND deleted_at IS NULL").get() as any;
       
       res.json({
         totalUsers: totalUsers.count,
@@ -459,6 +3136,205 @@ async function startServer() {
     }
   });
 
+  // Registration access: allowed email domains and invite codes
+  app.get("/api/admin/email-domains", requirePermission("registration.manage"), (req, res) => {
+    try {
+      const domains = db.prepare("SELECT id, domain, created_at FROM allowed_email_domains ORDER BY domain ASC").all();
+      res.json(domains);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch email domains" });
+    }
+  });
+
+  app.post("/api/admin/email-domains", requirePermission("registration.manage"), (req: any, res) => {
+    const domain = normalizeDomain(req.body.domain);
+    if (!DOMAIN_PATTERN.test(domain)) {
+      return res.status(400).json({ error: "Enter a domain like example.com" });
+    }
+    try {
+      const info = db.prepare("INSERT INTO allowed_email_domains (domain, created_by) VALUES (?, ?)").run(domain, req.user.id);
+      recordAudit(req, "registration.add_domain", { type: "email_domain", id: info.lastInsertRowid, label: domain }, null, { domain });
+      res.status(201).json({ id: info.lastInsertRowid, domain });
+    } catch (error: any) {
+      if (error.message.includes("UNIQUE")) {
+        return res.status(400).json({ error: "That domain is already allowed" });
+      }
+      res.status(500).json({ error: "Failed to add email domain" });
+    }
+  });
+
+  app.delete("/api/admin/email-domains/:id", requirePermission("registration.manage"), (req, res) => {
+    try {
+      const domain: any = db.prepare("SELECT * FROM allowed_email_domains WHERE id = ?").get(req.params.id);
+      if (!domain) return res.status(404).json({ error: "Domain not found" });
+      db.prepare("DELETE FROM allowed_email_domains WHERE id = ?").run(domain.id);
+      recordAudit(req, "registration.remove_domain", { type: "email_domain", id: domain.id, label: domain.domain }, { domain: domain.domain }, null);
+      res.json({ message: "Domain removed" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove email domain" });
+    }
+  });
+
+  app.get("/api/admin/invites", requirePermission("registration.manage"), (req, res) => {
+    try {
+      const invites = db.prepare(`
+        SELECT i.*, u.username AS created_by_username
+        FROM invites i LEFT JOIN users u ON i.created_by = u.id
+        ORDER BY i.created_at DESC
+      `).all() as any[];
+      res.json(invites.map(invite => ({ ...invite, link: `${APP_URL}/?invite=${invite.code}` })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch invites" });
+    }
+  });
+
+  app.post("/api/admin/invites", requirePermission("registration.manage"), (req: any, res) => {
+    const maxUses = parseInt(req.body.max_uses ?? "1");
+    const expiresInDays = req.body.expires_in_days ? parseInt(req.body.expires_in_days) : null;
+    if (isNaN(maxUses) || maxUses < 1) {
+      return res.status(400).json({ error: "Max uses must be at least 1" });
+    }
+    if (expiresInDays !== null && (isNaN(expiresInDays) || expiresInDays < 1)) {
+      return res.status(400).json({ error: "Expiry must be at least 1 day" });
+    }
+
+    try {
+      const code = crypto.randomBytes(6).toString("base64url");
+      const info = db.prepare(`
+        INSERT INTO invites (code, max_uses, expires_at, created_by)
+        VALUES (?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', ?) END, ?)
+      `).run(code, maxUses, expiresInDays, `+${expiresInDays} days`, req.user.id);
+      const invite: any = db.prepare("SELECT * FROM invites WHERE id = ?").get(info.lastInsertRowid);
+      recordAudit(req, "registration.create_invite", { type: "invite", id: invite.id, label: invite.code }, null,
+        { max_uses: invite.max_uses, expires_at: invite.expires_at });
+      res.status(201).json({ ...invite, link: `${APP_URL}/?invite=${code}` });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create invite" });
+    }
+  });
+
+  // Revoked rather than deleted so the invite list keeps its usage history
+  app.delete("/api/admin/invites/:id", requirePermission("registration.manage"), (req, res) => {
+    try {
+      const info = db.prepare("UPDATE invites SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL").run(req.params.id);
+      if (info.changes === 0) return res.status(404).json({ error: "Invite not found or already revoked" });
+      const invite: any = db.prepare("SELECT id, code, uses FROM invites WHERE id = ?").get(req.params.id);
+      recordAudit(req, "registration.revoke_invite", { type: "invite", id: invite.id, label: invite.code }, null, { uses: invite.uses });
+      res.json({ message: "Invite revoked" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke invite" });
+    }
+  });
+
+  // Trash: soft-deleted users and jobs awaiting the purge, with restore and permanent delete
+  app.get("/api/admin/trash/users", requirePermission("users.manage"), (req, res) => {
+    try {
+      const users = db.prepare(`
+        SELECT u.id, u.username, u.email, u.role, u.deleted_at, datetime(u.deleted_at, ?) AS purge_at,
+          (SELECT COUNT(*) FROM jobs j WHERE j.user_id = u.id AND j.deleted_at = u.deleted_at) AS job_count
+        FROM users u WHERE u.deleted_at IS NOT NULL
+        ORDER BY u.deleted_at DESC
+      `).all(`+${TRASH_RETENTION_DAYS} days`);
+      res.json(users);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch deleted users" });
+    }
+  });
+
+  app.get("/api/admin/trash/jobs", requirePermission("jobs.moderate"), (req, res) => {
+    try {
+      const jobs = db.prepare(`
+        SELECT j.id, j.title, j.company, j.posted_by, j.deleted_at, datetime(j.deleted_at, ?) AS purge_at,
+          u.deleted_at IS NOT NULL AS poster_deleted
+        FROM jobs j LEFT JOIN users u ON j.user_id = u.id
+        WHERE j.deleted_at IS NOT NULL
+        ORDER BY j.deleted_at DESC
+      `).all(`+${TRASH_RETENTION_DAYS} days`);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch deleted jobs" });
+    }
+  });
+
+  app.post("/api/admin/trash/users/:id/restore", requirePermission("users.manage"), (req, res) => {
+    try {
+      const user: any = db.prepare("SELECT id, username, deleted_at FROM users WHERE id = ? AND deleted_at IS NOT NULL").get(req.params.id);
+      if (!user) return res.status(404).json({ error: "User not found in trash" });
+      const restoredJobs = db.transaction(() => {
+        db.prepare("UPDATE users SET deleted_at = NULL WHERE id = ?").run(user.id);
+        return db.prepare("UPDATE jobs SET deleted_at = NULL WHERE user_id = ? AND deleted_at = ?").run(user.id, user.deleted_at).changes;
+      })();
+      recordAudit(req, "user.restore", { type: "user", id: user.id, label: user.username }, { deleted_at: user.deleted_at }, { deleted_at: null, restored_jobs: restoredJobs });
+      res.json({ message: "User restored", restoredJobs });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore user" });
+    }
+  });
+
+  app.post("/api/admin/trash/jobs/:id/restore", requirePermission("jobs.moderate"), (req, res) => {
+    try {
+      const job: any = db.prepare(`
+        SELECT j.id, j.title, j.deleted_at, u.deleted_at AS poster_deleted_at
+        FROM jobs j LEFT JOIN users u ON j.user_id = u.id WHERE j.id = ? AND j.deleted_at IS NOT NULL
+      `).get(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found in trash" });
+      if (job.poster_deleted_at) return res.status(400).json({ error: "Restore the poster's account first" });
+
+      db.prepare("UPDATE jobs SET deleted_at = NULL WHERE id = ?").run(job.id);
+      recordAudit(req, "job.restore", { type: "job", id: job.id, label: job.title }, { deleted_at: job.deleted_at }, { deleted_at: null });
+      res.json({ message: "Job restored" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore job" });
+    }
+  });
+
+  app.delete("/api/admin/trash/users/:id", requirePermission("users.manage"), (req, res) => {
+    try {
+      const user: any = db.prepare("SELECT id, username FROM users WHERE id = ? AND deleted_at IS NOT NULL").get(req.params.id);
+      if (!user) return res.status(404).json({ error: "User not found in trash" });
+      purgeUser(user.id);
+      recordAudit(req, "user.purge", { type: "user", id: user.id, label: user.username });
+      res.json({ message: "User permanently deleted" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to permanently delete user" });
+    }
+  });
+
+  app.delete("/api/admin/trash/jobs/:id", requirePermission("jobs.moderate"), (req, res) => {
+    try {
+      const job: any = db.prepare("SELECT id, title FROM jobs WHERE id = ? AND deleted_at IS NOT NULL").get(req.params.id);
+      if (!job) return res.status(404).json({ error: "Job not found in trash" });
+      purgeJob(job.id);
+      recordAudit(req, "job.purge", { type: "job", id: job.id, label: job.title });
+      res.json({ message: "Job permanently deleted" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to permanently delete job" });
+    }
+  });
+
+  // Audit log, newest first. ?format=csv downloads every matching entry instead of a page.
+  app.get("/api/admin/audit-log", requirePermission("audit.view"), (req, res) => {
+    try {
+      const { whereSql, params } = buildAuditFilters(req.query);
+      if (req.query.format === "csv") {
+        const entries = db.prepare(`SELECT * FROM audit_log ${whereSql} ORDER BY id DESC`).all(...params);
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+        return res.send(toCsv(entries, [
+          "id", "created_at", "actor_username", "action", "target_type", "target_id", "target_label", "before_json", "after_json", "ip",
+        ]));
+      }
+
+      const { page, pageSize, offset } = parsePagination({ ...req.query, pageSize: req.query.pageSize || "25" });
+      const { count: total } = db.prepare(`SELECT COUNT(*) as count FROM audit_log ${whereSql}`).get(...params) as any;
+      const entries = db.prepare(`SELECT * FROM audit_log ${whereSql} ORDER BY id DESC LIMIT ? OFFSET ?`).all(...params, pageSize, offset);
+      const actions = (db.prepare("SELECT DISTINCT action FROM audit_log ORDER BY action").all() as any[]).map(row => row.action);
+      res.json({ entries, total, page, pageSize, totalPages: Math.ceil(total / pageSize), actions });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -473,6 +3349,13 @@ async function startServer() {
     });
   }
 
+  archiveExpiredJobs();
+  purgeTrash();
+  setInterval(() => {
+    archiveExpiredJobs();
+    purgeTrash();
+  }, JOB_SWEEP_INTERVAL_MS);
+
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
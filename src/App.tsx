@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { Plus, ExternalLink, Filter, Briefcase, Building2, User, Calendar, X, Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Sparkles, Loader2, MapPin, DollarSign, Award, FileText, Mail, Save, LogIn, LogOut, UserPlus, Lock, Eye, EyeOff, Globe, Linkedin, Github, GraduationCap, Phone, Camera, Upload, Twitter, Instagram, Shield, Trash2, Ban, RefreshCw, CheckCircle2, Users, TrendingUp, Link2Off, Eraser, Link } from "lucide-react";
+import { Plus, ExternalLink, Filter, Briefcase, Building2, User, Calendar, X, Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Sparkles, Loader2, MapPin, DollarSign, Award, FileText, Mail, Save, LogIn, LogOut, UserPlus, Lock, Eye, EyeOff, Globe, Linkedin, Github, GraduationCap, Phone, Camera, Upload, Twitter, Instagram, Shield, Trash2, Ban, RefreshCw, CheckCircle2, Users, TrendingUp, Link2Off, Eraser, Link, Bookmark, BookmarkCheck, BellRing, Bell, Copy, Ticket, ShieldCheck, KeyRound, Download, RotateCcw } from "lucide-react";
 import { motion, AnimatePresence } from "motion/react";
 import { GoogleGenAI } from "@google/genai";
 
@@ -17,19 +17,51 @@ interface Job {
   link: string;
   link_type: string;
   posted_by: string;
+  user_id: number | null;
+  status: string;
+  expires_at: string | null;
+  archived_at: string | null;
   created_at: string;
+  application_count?: number;
+  title_highlight?: string;
+  snippet?: string;
+  match_score?: number;
+  match_reasons?: string[];
 }
 
-interface Profile {
+interface WorkExperience {
+  id: number;
+  title: string;
+  company: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  description: string | null;
+}
+
+interface EducationEntry {
+  id: number;
+  institution: string;
+  degree: string | null;
+  field_of_study: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  description: string | null;
+}
+
+// Structured profile data, edited through its own endpoints rather than the main profile save
+interface ProfileSections {
+  skills: string[];
+  experiences: WorkExperience[];
+  education: EducationEntry[];
+}
+
+interface Profile extends ProfileSections {
   name: string;
   email: string;
   role: string;
   photo_url: string;
   contact_details: string;
   location: string;
-  skills: string;
-  experience: string;
-  education: string;
   resume_url: string;
   portfolio_url: string;
   linkedin_url: string;
@@ -37,26 +69,347 @@ interface Profile {
   is_public: boolean;
 }
 
+interface MyApplication {
+  id: number;
+  job_id: number;
+  status: string;
+  next_statuses: string[];
+  cover_note: string | null;
+  resume_url: string;
+  created_at: string;
+  title: string;
+  company: string;
+  location: string;
+  link: string;
+}
+
+interface Applicant extends ProfileSections {
+  id: number;
+  job_id: number;
+  user_id: number;
+  status: string;
+  next_statuses: string[];
+  cover_note: string | null;
+  resume_url: string;
+  created_at: string;
+  username: string;
+  email: string;
+  name: string;
+  photo_url: string;
+  contact_details: string;
+  location: string;
+  portfolio_url: string;
+  linkedin_url: string;
+  github_url: string;
+}
+
+interface ApplicationHistoryEntry {
+  id: number;
+  from_status: string | null;
+  to_status: string;
+  note?: string | null;
+  changed_by: string;
+  created_at: string;
+}
+
+interface SavedSearch {
+  id: number;
+  name: string;
+  category: string | null;
+  experience: string | null;
+  search: string | null;
+  location: string | null;
+  new_match_count: number;
+  created_at: string;
+}
+
+interface AppNotification {
+  id: number;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  is_read: number;
+  created_at: string;
+}
+
+interface ActiveSession {
+  id: number;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
+}
+
+interface AuditEntry {
+  id: number;
+  actor_id: number | null;
+  actor_username: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  target_label: string | null;
+  before_json: string | null;
+  after_json: string | null;
+  ip: string | null;
+  created_at: string;
+}
+
+// Field-by-field differences between an audit entry's before and after snapshots
+const auditChanges = (entry: AuditEntry) => {
+  const before = entry.before_json ? JSON.parse(entry.before_json) : {};
+  const after = entry.after_json ? JSON.parse(entry.after_json) : {};
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, from: before[field], to: after[field] }));
+};
+
+const AUDIT_TARGET_TYPES = ["user", "job", "invite", "email_domain", "lockout"];
+
+interface LoginLockout {
+  id: number;
+  scope: "account" | "ip";
+  label: string;
+  failures: number;
+  last_failure_at: string;
+  locked_until: string | null;
+  is_locked: number;
+}
+
+interface LoginAttempt {
+  id: number;
+  identifier: string;
+  username: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  reason: string;
+  created_at: string;
+}
+
+interface TrashedUser {
+  id: number;
+  username: string;
+  email: string;
+  role: string;
+  deleted_at: string;
+  purge_at: string;
+  job_count: number;
+}
+
+interface TrashedJob {
+  id: number;
+  title: string;
+  company: string;
+  posted_by: string;
+  deleted_at: string;
+  purge_at: string;
+  poster_deleted: number;
+}
+
+type AdminSubTab = "users" | "jobs" | "trash" | "audit" | "candidates" | "access" | "security";
+
+// Admin panel sections and the permission each needs; staff only see the ones their role allows
+const ADMIN_SUB_TABS: { id: AdminSubTab; label: string; permission: string }[] = [
+  { id: "users", label: "Users Management", permission: "users.view" },
+  { id: "jobs", label: "Jobs Moderation", permission: "jobs.moderate" },
+  { id: "trash", label: "Trash", permission: "jobs.moderate" },
+  { id: "audit", label: "Audit Log", permission: "audit.view" },
+  { id: "candidates", label: "Candidate Search", permission: "candidates.search" },
+  { id: "access", label: "Registration Access", permission: "registration.manage" },
+  { id: "security", label: "Sign-in Security", permission: "security.manage" },
+];
+
+const ROLE_BADGE_STYLES: Record<string, string> = {
+  admin: "bg-red-50 text-red-600",
+  moderator: "bg-amber-50 text-amber-600",
+  recruiter: "bg-emerald-50 text-emerald-600",
+  user: "bg-blue-50 text-blue-600",
+};
+
+const LOGIN_FAILURE_REASONS: Record<string, string> = {
+  bad_password: "Wrong password",
+  unknown_user: "Unknown account",
+  bad_2fa_code: "Wrong 2FA code",
+  bad_otp_code: "Wrong SMS code",
+};
+
+interface AllowedDomain {
+  id: number;
+  domain: string;
+  created_at: string;
+}
+
+interface Invite {
+  id: number;
+  code: string;
+  link: string;
+  max_uses: number;
+  uses: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_by_username: string | null;
+  created_at: string;
+}
+
 interface AuthUser {
   id: number;
   username: string;
   email: string;
   role: string;
   is_public?: number;
+  email_verified?: number;
+  phone?: string | null;
+  phone_verified?: number;
+  totp_enabled?: number;
+  must_change_password?: number;
+  permissions?: string[];
+}
+
+interface Candidate extends ProfileSections {
+  user_id: number;
+  username: string;
+  name: string;
+  photo_url: string | null;
+  location: string | null;
+  resume_url: string | null;
+  portfolio_url: string | null;
+  linkedin_url: string | null;
+  github_url: string | null;
+  updated_at: string;
+}
+
+// A directory profile page; contact_details is only filled in for recruiters and the owner
+interface PublicProfile extends Candidate {
+  contact_details: string | null;
+  is_public: number;
+  created_at: string;
 }
 
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+// Access tokens are refreshed this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Reads the exp claim of a JWT in ms without verifying it; the server does the verifying
+const tokenPayload = (jwtToken: string) => {
+  try {
+    return JSON.parse(atob(jwtToken.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    return null;
+  }
+};
+
+const tokenExpiresAt = (jwtToken: string) => {
+  const payload = tokenPayload(jwtToken);
+  return typeof payload?.exp === "number" ? payload.exp * 1000 : 0;
+};
+
+// Flattens an API error, including any { details } list such as password policy failures, for alert()
+const apiErrorMessage = (data: any, fallback = "Something went wrong") => {
+  if (!data?.error) return fallback;
+  return data.details?.length ? `${data.error}:\n• ${data.details.join("\n• ")}` : data.error;
+};
+
+const describePasswordPolicy = (policy: { minLength: number; requirements: string[] }) =>
+  [`At least ${policy.minLength} characters`, ...policy.requirements.map(r => r.replace(/^Must include/, "includes"))].join(", ")
+    + ". Common passwords and your username aren't allowed.";
+
+const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge" : /Chrome\//.test(userAgent) ? "Chrome" : /Firefox\//.test(userAgent) ? "Firefox" : /Safari\//.test(userAgent) ? "Safari" : "Browser";
+  const os = /Windows/.test(userAgent) ? "Windows" : /Android/.test(userAgent) ? "Android" : /iPhone|iPad/.test(userAgent) ? "iOS" : /Mac OS X/.test(userAgent) ? "macOS" : /Linux/.test(userAgent) ? "Linux" : "unknown OS";
+  return `${browser} on ${os}`;
+};
+
 const CATEGORIES = ["All", "IT", "Admin", "Marketing", "Sales", "Design", "HR", "Finance", "Other"];
 const EXPERIENCE_LEVELS = ["Any", "Entry Level", "Mid Level", "Senior Level", "Lead/Manager"];
 const ITEMS_PER_PAGE = 6;
+const APPLICATION_STATUS_STYLES: Record<string, string> = {
+  applied: "bg-indigo-50 text-indigo-600",
+  screening: "bg-sky-50 text-sky-600",
+  interview: "bg-amber-50 text-amber-600",
+  offer: "bg-emerald-50 text-emerald-600",
+  rejected: "bg-red-50 text-red-600",
+  withdrawn: "bg-slate-100 text-slate-500",
+};
+const APPLICATION_STAGES = Object.keys(APPLICATION_STATUS_STYLES);
+const JOB_STATUSES = ["open", "closed", "filled"];
+const SORT_LABELS = { relevance: "Best Match", newest: "Newest First", oldest: "Oldest First" };
+
+type SortOrder = keyof typeof SORT_LABELS;
+
+// Renders search results whose matched terms the server wrapped in <mark></mark>, without injecting HTML
+const renderHighlights = (text: string) =>
+  text.split(/<mark>(.*?)<\/mark>/g).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-indigo-100 text-indigo-700 rounded px-0.5">{part}</mark> : part
+  );
+
+type ProfileEntryType = "experiences" | "education";
+
+// Fields of the work history and education editors; the server requires the first one
+const PROFILE_ENTRY_FIELDS: Record<ProfileEntryType, { name: string; label: string; placeholder?: string; type?: "month" | "textarea" }[]> = {
+  experiences: [
+    { name: "title", label: "Job Title", placeholder: "Frontend Engineer" },
+    { name: "company", label: "Company", placeholder: "Acme Corp" },
+    { name: "start_date", label: "Start", type: "month" },
+    { name: "end_date", label: "End (blank if current)", type: "month" },
+    { name: "description", label: "Description", placeholder: "What you worked on", type: "textarea" },
+  ],
+  education: [
+    { name: "institution", label: "Institution", placeholder: "University or school" },
+    { name: "degree", label: "Degree", placeholder: "B.Tech" },
+    { name: "field_of_study", label: "Field of Study", placeholder: "Computer Science" },
+    { name: "start_date", label: "Start", type: "month" },
+    { name: "end_date", label: "End (blank if ongoing)", type: "month" },
+    { name: "description", label: "Description", type: "textarea" },
+  ],
+};
+
+// "2021-03" as "Mar 2021"; entries without dates (like migrated free text) show no range at all
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+
+const formatEntryDates = (entry: { start_date: string | null; end_date: string | null }) => {
+  if (!entry.start_date && !entry.end_date) return "";
+  return `${entry.start_date ? formatMonth(entry.start_date) : "?"} – ${entry.end_date ? formatMonth(entry.end_date) : "Present"}`;
+};
+
+const describeExperience = (experience: WorkExperience) =>
+  experience.company ? `${experience.title} at ${experience.company}` : experience.title;
+
+const describeEducation = (education: EducationEntry) =>
+  [[education.degree, education.field_of_study].filter(Boolean).join(", "), education.institution].filter(Boolean).join(" · ");
+
+// Resume and social links shown on directory and candidate search cards
+const renderProfileLinks = (candidate: Candidate) => (
+  <div className="flex flex-wrap gap-3 text-xs font-bold">
+    {candidate.resume_url && <a href={candidate.resume_url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline flex items-center gap-1"><FileText size={12} /> Resume</a>}
+    {candidate.linkedin_url && <a href={candidate.linkedin_url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline flex items-center gap-1"><Linkedin size={12} /> LinkedIn</a>}
+    {candidate.github_url && <a href={candidate.github_url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline flex items-center gap-1"><Github size={12} /> GitHub</a>}
+    {candidate.portfolio_url && <a href={candidate.portfolio_url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline flex items-center gap-1"><Globe size={12} /> Portfolio</a>}
+  </div>
+);
 
 export default function App() {
   const [jobs, setJobs] = useState<Job[]>([]);
-  const [filteredJobs, setFilteredJobs] = useState<Job[]>([]);
+  const [totalJobs, setTotalJobs] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
   const [selectedCategory, setSelectedCategory] = useState("All");
   const [selectedExperience, setSelectedExperience] = useState("Any");
   const [searchQuery, setSearchQuery] = useState("");
   const [locationQuery, setLocationQuery] = useState("");
-  const [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest");
+  const [showSavedOnly, setShowSavedOnly] = useState(false);
+  const [savedJobIds, setSavedJobIds] = useState<number[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("newest");
   const [currentPage, setCurrentPage] = useState(1);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
@@ -65,21 +418,82 @@ export default function App() {
   const [isUploading, setIsUploading] = useState(false);
   const [magicLink, setMagicLink] = useState("");
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<"jobs" | "profile" | "admin">("jobs");
+  const [activeTab, setActiveTab] = useState<"jobs" | "profile" | "admin" | "applications" | "postings" | "directory">("jobs");
   const [adminUsers, setAdminUsers] = useState<any[]>([]);
+  const [adminJobs, setAdminJobs] = useState<Job[]>([]);
   const [adminStats, setAdminStats] = useState<any>(null);
   const [isAdminLoading, setIsAdminLoading] = useState(false);
   const [viewMode, setViewMode] = useState<"user" | "admin">("user");
-  const [adminSubTab, setAdminSubTab] = useState<"users" | "jobs">("users");
+  const [adminSubTab, setAdminSubTab] = useState<AdminSubTab>("users");
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditActions, setAuditActions] = useState<string[]>([]);
+  const [auditFilters, setAuditFilters] = useState({ action: "", actor: "", target_type: "", from: "", to: "" });
+  const [auditPage, setAuditPage] = useState(1);
+  const [auditTotalPages, setAuditTotalPages] = useState(1);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [candidateFilters, setCandidateFilters] = useState({ q: "", location: "" });
+  const [candidatePage, setCandidatePage] = useState(1);
+  const [candidateTotalPages, setCandidateTotalPages] = useState(1);
+  const [recommendedJobs, setRecommendedJobs] = useState<Job[]>([]);
+  const [directoryProfiles, setDirectoryProfiles] = useState<Candidate[]>([]);
+  const [directoryFilters, setDirectoryFilters] = useState({ q: "", skills: "", location: "", experience: "" });
+  const [directoryPage, setDirectoryPage] = useState(1);
+  const [directoryTotalPages, setDirectoryTotalPages] = useState(1);
+  const [viewedProfile, setViewedProfile] = useState<PublicProfile | null>(null);
+  const [skillInput, setSkillInput] = useState("");
+  const [skillSuggestions, setSkillSuggestions] = useState<string[]>([]);
+  const [entryForm, setEntryForm] = useState<{ type: ProfileEntryType; id: number | null; values: Record<string, string> } | null>(null);
+  const [trashedUsers, setTrashedUsers] = useState<TrashedUser[]>([]);
+  const [trashedJobs, setTrashedJobs] = useState<TrashedJob[]>([]);
+  const [loginLockouts, setLoginLockouts] = useState<LoginLockout[]>([]);
+  const [loginAttempts, setLoginAttempts] = useState<LoginAttempt[]>([]);
+  const [allowedDomains, setAllowedDomains] = useState<AllowedDomain[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [newDomain, setNewDomain] = useState("");
+  const [inviteForm, setInviteForm] = useState({ max_uses: "1", expires_in_days: "7" });
   const [isSelfResetModalOpen, setIsSelfResetModalOpen] = useState(false);
   const [selfResetPassword, setSelfResetPassword] = useState("");
+  const [selfCurrentPassword, setSelfCurrentPassword] = useState("");
+  const [passwordPolicy, setPasswordPolicy] = useState<{ minLength: number; requirements: string[] } | null>(null);
+  const [myApplications, setMyApplications] = useState<MyApplication[]>([]);
+  const [applyJob, setApplyJob] = useState<Job | null>(null);
+  const [coverNote, setCoverNote] = useState("");
+  const [applicantsJob, setApplicantsJob] = useState<Job | null>(null);
+  const [applicants, setApplicants] = useState<Applicant[]>([]);
+  const [myPostings, setMyPostings] = useState<Job[]>([]);
+  const [editingJobId, setEditingJobId] = useState<number | null>(null);
+  const [adminJobsFilter, setAdminJobsFilter] = useState<"all" | "live" | "archived">("all");
+  const [applicationHistory, setApplicationHistory] = useState<Record<number, ApplicationHistoryEntry[]>>({});
 
   // Auth State
-  const [token, setToken] = useState<string | null>(localStorage.getItem("token"));
+  const [token, setToken] = useState<string | null>(() => {
+    // An expired access token is dropped here and swapped for a fresh one by the refresh effect
+    const stored = localStorage.getItem("token");
+    return stored && tokenExpiresAt(stored) > Date.now() ? stored : null;
+  });
+  const [refreshToken, setRefreshToken] = useState<string | null>(localStorage.getItem("refreshToken"));
+  // Unchanged when the access token is refreshed, so account data is loaded once per sign-in
+  const signedInUserId: number | null = token ? tokenPayload(token)?.id ?? null : null;
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
   const [user, setUser] = useState<AuthUser | null>(null);
+  const can = (permission: string) => !!user?.permissions?.includes(permission);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
-  const [authMode, setAuthMode] = useState<"login" | "register" | "forgot">("login");
-  const [authForm, setAuthForm] = useState({ username: "", email: "", password: "", phone: "" });
+  const [authMode, setAuthMode] = useState<"login" | "register" | "forgot" | "reset" | "otp" | "mfa">("login");
+  const [authForm, setAuthForm] = useState({ username: "", email: "", password: "", phone: "", invite_code: "" });
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [otpForm, setOtpForm] = useState({ phone: "", code: "" });
+  const [otpSent, setOtpSent] = useState(false);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [ssoProvider, setSsoProvider] = useState<{ enabled: boolean; name?: string } | null>(null);
+  const [isTwoFactorModalOpen, setIsTwoFactorModalOpen] = useState(false);
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{ secret: string; otpauthUrl: string; qrCode: string } | null>(null);
+  const [twoFactorForm, setTwoFactorForm] = useState({ code: "", password: "" });
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [phoneInput, setPhoneInput] = useState("");
+  const [phoneCode, setPhoneCode] = useState("");
+  const [phoneCodeSent, setPhoneCodeSent] = useState(false);
 
   const [profile, setProfile] = useState<Profile>({
     name: "",
@@ -88,9 +502,9 @@ export default function App() {
     photo_url: "",
     contact_details: "",
     location: "",
-    skills: "",
-    experience: "",
-    education: "",
+    skills: [],
+    experiences: [],
+    education: [],
     resume_url: "",
     portfolio_url: "",
     linkedin_url: "",
@@ -109,13 +523,74 @@ export default function App() {
     link: "",
     link_type: "Other",
     posted_by: "",
+    expires_at: "",
   });
 
+  // Emailed links land on /?reset_token=..., /?verify_token=... or /?invite=..., and single sign-on returns with
+  // /?sso_code=... or /?sso_error=...; handle them and drop the token from the address bar
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linkToken = params.get("reset_token");
+    const verifyToken = params.get("verify_token");
+    const inviteCode = params.get("invite");
+    const ssoCode = params.get("sso_code");
+    const ssoError = params.get("sso_error");
+    if (!linkToken && !verifyToken && !inviteCode && !ssoCode && !ssoError) return;
+    if (inviteCode && !localStorage.getItem("token")) {
+      setAuthForm(prev => ({ ...prev, invite_code: inviteCode }));
+      setAuthMode("register");
+      setIsAuthModalOpen(true);
+    }
+    if (linkToken) {
+      setResetToken(linkToken);
+      setAuthMode("reset");
+      setIsAuthModalOpen(true);
+    }
+    if (verifyToken) verifyEmail(verifyToken);
+    if (ssoCode) handleSsoExchange(ssoCode);
+    if (ssoError) {
+      setAuthMode("login");
+      setIsAuthModalOpen(true);
+      alert(ssoError);
+    }
+    params.delete("reset_token");
+    params.delete("verify_token");
+    params.delete("invite");
+    params.delete("sso_code");
+    params.delete("sso_error");
+    const query = params.toString();
+    window.history.replaceState(null, "", window.location.pathname + (query ? `?${query}` : ""));
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/auth/oidc/config")
+      .then(response => response.ok ? response.json() : null)
+      .then(setSsoProvider)
+      .catch(error => console.error("Error fetching SSO config:", error));
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/auth/password-policy")
+      .then(response => response.ok ? response.json() : null)
+      .then(setPasswordPolicy)
+      .catch(error => console.error("Error fetching password policy:", error));
+  }, []);
+
   useEffect(() => {
-    fetchJobs();
-    if (token) {
+    if (signedInUserId) {
       fetchMyProfile();
+      fetchMyApplications();
+      fetchSavedJobIds();
+      fetchSavedSearches();
+      fetchRecommendedJobs();
     }
+  }, [signedInUserId]);
+
+  useEffect(() => {
+    if (!token) return;
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, 60 * 1000);
+    return () => clearInterval(interval);
   }, [token]);
 
   useEffect(() => {
@@ -124,11 +599,19 @@ export default function App() {
     }
   }, [user]);
 
+  // Accounts still on a seeded or temporary password are sent straight to the change-password form
+  useEffect(() => {
+    if (user?.must_change_password) setIsSelfResetModalOpen(true);
+  }, [user?.must_change_password]);
+
   useEffect(() => {
-    if (user?.role === 'admin') {
+    if (can("admin.panel")) {
       setViewMode("admin");
+      fetchTwoFactorStatus();
       fetchAdminStats();
       fetchAdminUsers();
+      const firstTab = ADMIN_SUB_TABS.find(tab => can(tab.permission));
+      if (firstTab && !can(ADMIN_SUB_TABS.find(tab => tab.id === adminSubTab)!.permission)) setAdminSubTab(firstTab.id);
     } else {
       setViewMode("user");
     }
@@ -136,6 +619,10 @@ export default function App() {
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (authMode === "forgot") return handleForgotPassword();
+    if (authMode === "reset") return handleConfirmPasswordReset();
+    if (authMode === "otp") return handleOtpAuth();
+    if (authMode === "mfa") return handleMfaLogin();
     const endpoint = authMode === "login" ? "/api/auth/login" : "/api/auth/register";
     const payload = authMode === "login" 
       ? { identifier: authForm.email, password: authForm.password }
@@ -148,1049 +635,3651 @@ export default function App() {
         body: JSON.stringify(payload),
       });
       const data = await response.json();
-      if (response.ok) {
-        setToken(data.token);
+      if (response.ok && data.mfa_required) {
+        setMfaToken(data.mfa_token);
+        switchAuthMode("mfa");
+      } else if (response.ok) {
+        storeSession(data);
         setUser(data.user);
-        localStorage.setItem("token", data.token);
         setIsAuthModalOpen(false);
-        setAuthForm({ username: "", email: "", password: "", phone: "" });
+        setAuthForm({ username: "", email: "", password: "", phone: "", invite_code: "" });
       } else {
-        alert(data.error);
+        alert(apiErrorMessage(data));
       }
     } catch (error) {
       console.error("Auth error:", error);
     }
   };
 
-  const handleLogout = () => {
-    setToken(null);
-    setUser(null);
-    localStorage.removeItem("token");
-    setProfile({ 
-      name: "", email: "", role: "user", photo_url: "", contact_details: "", location: "",
-      skills: "", experience: "", education: "", resume_url: "",
-      portfolio_url: "", linkedin_url: "", github_url: "", is_public: true 
-    });
-  };
-
-  const fetchMyProfile = async () => {
-    if (!token) return;
+  const handleForgotPassword = async () => {
+    setIsLoading(true);
     try {
-      const response = await fetch("/api/profile/me", {
-        headers: { "Authorization": `Bearer ${token}` }
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: authForm.email }),
       });
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
-        setProfile({
-          name: data.name || "",
-          email: data.email || "",
-          role: data.role || "user",
-          photo_url: data.photo_url || "",
-          contact_details: data.contact_details || "",
-          location: data.location || "",
-          skills: data.skills || "",
-          experience: data.experience || "",
-          education: data.education || "",
-          resume_url: data.resume_url || "",
-          portfolio_url: data.portfolio_url || "",
-          linkedin_url: data.linkedin_url || "",
-          github_url: data.github_url || "",
-          is_public: data.is_public === 1,
-        });
-        setUser({
-          id: data.user_id,
-          username: data.username,
-          email: data.email,
-          role: data.role,
-          is_public: data.is_public
-        });
-      } else if (response.status === 401) {
-        handleLogout();
+        alert(data.message);
+        setAuthMode("login");
+      } else {
+        alert(data.error);
       }
     } catch (error) {
-      console.error("Error fetching profile:", error);
+      console.error("Forgot password error:", error);
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const handleResumeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !token) return;
-
-    const formData = new FormData();
-    formData.append("resume", file);
-
-    setIsUploading(true);
+  const handleConfirmPasswordReset = async () => {
+    setIsLoading(true);
     try {
-      const response = await fetch("/api/upload/resume", {
+      const response = await fetch("/api/auth/reset-password/confirm", {
         method: "POST",
-        headers: {
-          "Authorization": `Bearer ${token}`
-        },
-        body: formData
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: resetToken, newPassword: authForm.password }),
       });
-
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
-        setProfile({ ...profile, resume_url: data.url });
+        alert(data.message);
+        setResetToken(null);
+        setAuthForm({ username: "", email: "", password: "", phone: "", invite_code: "" });
+        setAuthMode("login");
       } else {
-        const error = await response.json();
-        alert(error.error || "Upload failed");
+        alert(apiErrorMessage(data));
       }
     } catch (error) {
-      console.error("Upload error:", error);
-      alert("An error occurred during upload");
+      console.error("Reset password error:", error);
     } finally {
-      setIsUploading(false);
+      setIsLoading(false);
     }
   };
 
-  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !token) return;
-
-    const formData = new FormData();
-    formData.append("photo", file);
-
-    setIsUploading(true);
+  // Two steps on one form: the first submit texts a code, the second signs in with it
+  const handleOtpAuth = async () => {
+    setIsLoading(true);
     try {
-      const response = await fetch("/api/upload/photo", {
+      const response = await fetch(otpSent ? "/api/auth/otp/login" : "/api/auth/otp/request", {
         method: "POST",
-        headers: {
-          "Authorization": `Bearer ${token}`
-        },
-        body: formData
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(otpSent ? otpForm : { phone: otpForm.phone }),
       });
-
-      if (response.ok) {
-        const data = await response.json();
-        setProfile({ ...profile, photo_url: data.url });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error);
+      } else if (!otpSent) {
+        setOtpSent(true);
+        alert(data.message);
+      } else if (data.mfa_required) {
+        setMfaToken(data.mfa_token);
+        setOtpForm({ phone: "", code: "" });
+        switchAuthMode("mfa");
       } else {
-        const error = await response.json();
-        alert(error.error || "Upload failed");
+        storeSession(data);
+        setUser(data.user);
+        setIsAuthModalOpen(false);
+        setOtpForm({ phone: "", code: "" });
+        setOtpSent(false);
+        setAuthMode("login");
       }
     } catch (error) {
-      console.error("Photo upload error:", error);
-      alert("An error occurred during photo upload");
+      console.error("OTP auth error:", error);
     } finally {
-      setIsUploading(false);
+      setIsLoading(false);
     }
   };
 
-  const detectLinkType = (url: string) => {
-    if (url.includes("linkedin.com")) return "LinkedIn";
-    if (url.includes("twitter.com") || url.includes("x.com")) return "Twitter";
-    if (url.includes("instagram.com")) return "Instagram";
-    if (url.includes("github.com")) return "GitHub";
-    return "Other";
+  const switchAuthMode = (mode: typeof authMode) => {
+    setAuthMode(mode);
+    setOtpSent(false);
+    setOtpForm(prev => ({ ...prev, code: "" }));
+    setMfaCode("");
   };
 
-  const getLinkIcon = (type: string) => {
-    switch (type) {
-      case "LinkedIn": return <Linkedin size={14} className="text-[#0A66C2]" />;
-      case "Twitter": return <Twitter size={14} className="text-[#1DA1F2]" />;
-      case "Instagram": return <Instagram size={14} className="text-[#E4405F]" />;
-      case "GitHub": return <Github size={14} className="text-[#181717]" />;
-      default: return <Globe size={14} className="text-gray-400" />;
+  const handleSsoExchange = async (ssoCode: string) => {
+    try {
+      const response = await fetch("/api/auth/oidc/exchange", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: ssoCode }),
+      });
+      const data = await response.json();
+      if (response.ok && data.mfa_required) {
+        setMfaToken(data.mfa_token);
+        switchAuthMode("mfa");
+        setIsAuthModalOpen(true);
+      } else if (response.ok) {
+        storeSession(data);
+        setUser(data.user);
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("SSO sign-in error:", error);
     }
   };
 
-  const fetchAdminStats = async () => {
-    if (!token) return;
+  const handleMfaLogin = async () => {
+    setIsLoading(true);
     try {
-      const response = await fetch("/api/admin/stats", {
-        headers: { "Authorization": `Bearer ${token}` }
+      const response = await fetch("/api/auth/login/mfa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mfa_token: mfaToken, code: mfaCode }),
       });
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
-        setAdminStats(data);
+        storeSession(data);
+        setUser(data.user);
+        setIsAuthModalOpen(false);
+        setMfaToken(null);
+        setAuthForm({ username: "", email: "", password: "", phone: "", invite_code: "" });
+        switchAuthMode("login");
+      } else {
+        alert(data.error);
+        setMfaCode("");
       }
     } catch (error) {
-      console.error("Error fetching stats:", error);
+      console.error("MFA login error:", error);
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const fetchAdminUsers = async () => {
-    if (!token || user?.role !== 'admin') return;
-    setIsAdminLoading(true);
+  const fetchTwoFactorStatus = async () => {
+    if (!token) return;
     try {
-      const response = await fetch("/api/admin/users", {
+      const response = await fetch("/api/auth/2fa", {
         headers: { "Authorization": `Bearer ${token}` }
       });
-      if (response.ok) {
-        const data = await response.json();
-        setAdminUsers(data);
+      if (response.ok) setTwoFactorStatus(await response.json());
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+    }
+  };
+
+  const openTwoFactorModal = () => {
+    setTwoFactorSetup(null);
+    setBackupCodes(null);
+    setTwoFactorForm({ code: "", password: "" });
+    fetchTwoFactorStatus();
+    setIsTwoFactorModalOpen(true);
+  };
+
+  // Runs a two-factor action and shows any backup codes it returns; the form is cleared either way
+  const postTwoFactor = async (path: string, body: object) => {
+    if (!token) return null;
+    try {
+      const response = await fetch(`/api/auth/2fa/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Authorization": `Bearer ${token}` },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      setTwoFactorForm({ code: "", password: "" });
+      if (!response.ok) {
+        alert(data.error);
+        return null;
       }
+      if (data.backupCodes) setBackupCodes(data.backupCodes);
+      return data;
     } catch (error) {
-      console.error("Error fetching admin users:", error);
-    } finally {
-      setIsAdminLoading(false);
+      console.error("Two-factor error:", error);
+      return null;
     }
   };
 
-  const handleSuspendUser = async (userId: number, isSuspended: boolean) => {
+  const handleStartTwoFactorSetup = async () => {
+    const data = await postTwoFactor("setup", {});
+    if (data) setTwoFactorSetup(data);
+  };
+
+  const handleEnableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await postTwoFactor("enable", { code: twoFactorForm.code });
+    if (!data) return;
+    setTwoFactorSetup(null);
+    setUser(prev => prev ? { ...prev, totp_enabled: 1 } : prev);
+    fetchTwoFactorStatus();
+    if (can("admin.panel")) {
+      fetchAdminStats();
+      fetchAdminUsers();
+    }
+  };
+
+  const handleRegenerateBackupCodes = async () => {
+    if (!twoFactorForm.code) return alert("Enter a current authentication code first");
+    if (await postTwoFactor("backup-codes", { code: twoFactorForm.code })) fetchTwoFactorStatus();
+  };
+
+  const handleDisableTwoFactor = async () => {
+    if (!twoFactorForm.code || !twoFactorForm.password) return alert("Enter your password and a current authentication code");
+    if (!confirm("Turn off two-factor authentication?")) return;
+    if (!(await postTwoFactor("disable", twoFactorForm))) return;
+    setUser(prev => prev ? { ...prev, totp_enabled: 0 } : prev);
+    fetchTwoFactorStatus();
+  };
+
+  const handleSendPhoneCode = async () => {
     if (!token) return;
     try {
-      const response = await fetch(`/api/admin/users/${userId}/suspend`, {
-        method: "PUT",
-        headers: { 
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`
-        },
-        body: JSON.stringify({ is_suspended: !isSuspended })
+      const response = await fetch("/api/auth/phone/send-verification", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Authorization": `Bearer ${token}` },
+        body: JSON.stringify({ phone: phoneInput }),
       });
+      const data = await response.json();
       if (response.ok) {
-        fetchAdminUsers();
+        setPhoneInput(data.phone);
+        setPhoneCodeSent(true);
+        setPhoneCode("");
+      } else {
+        alert(data.error);
       }
     } catch (error) {
-      console.error("Error suspending user:", error);
+      console.error("Send phone code error:", error);
     }
   };
 
-  const handleDeleteUser = async (userId: number) => {
-    if (!token || !confirm("Are you sure you want to delete this user and all their data?")) return;
+  const handleVerifyPhone = async () => {
+    if (!token || !phoneCode) return;
     try {
-      const response = await fetch(`/api/admin/users/${userId}`, {
-        method: "DELETE",
-        headers: { "Authorization": `Bearer ${token}` }
+      const response = await fetch("/api/auth/phone/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Authorization": `Bearer ${token}` },
+        body: JSON.stringify({ phone: phoneInput, code: phoneCode }),
       });
+      const data = await response.json();
       if (response.ok) {
-        fetchAdminUsers();
+        setPhoneCodeSent(false);
+        setPhoneCode("");
+        setUser(prev => prev ? { ...prev, phone: data.phone, phone_verified: 1 } : prev);
+        alert(data.message);
+      } else {
+        alert(data.error);
       }
     } catch (error) {
-      console.error("Error deleting user:", error);
+      console.error("Verify phone error:", error);
     }
   };
 
-  const handleSelfResetPassword = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selfResetPassword || !token) return;
+  const verifyEmail = async (verifyToken: string) => {
     try {
-      const response = await fetch("/api/auth/reset-password", {
+      const response = await fetch("/api/auth/verify-email", {
         method: "POST",
-        headers: { 
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`
-        },
-        body: JSON.stringify({ newPassword: selfResetPassword })
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: verifyToken }),
       });
+      const data = await response.json();
       if (response.ok) {
-        alert("Password updated successfully");
-        setIsSelfResetModalOpen(false);
-        setSelfResetPassword("");
+        alert("Your email is verified. You can now post jobs and apply.");
+        fetchMyProfile();
       } else {
-        const error = await response.json();
-        alert(error.error || "Failed to update password");
+        alert(data.error);
       }
     } catch (error) {
-      console.error("Error resetting password:", error);
-      alert("An error occurred");
+      console.error("Verify email error:", error);
     }
   };
 
-  const handleClearSocials = async (userId: number) => {
-    if (!token || !confirm("Are you sure you want to remove all social media links for this user?")) return;
+  const handleResendVerification = async () => {
+    if (!token) return;
     try {
-      const response = await fetch(`/api/admin/users/${userId}/clear-socials`, {
-        method: "PUT",
+      const response = await fetch("/api/auth/resend-verification", {
+        method: "POST",
         headers: { "Authorization": `Bearer ${token}` }
       });
-      if (response.ok) {
-        alert("Social links removed");
-        fetchAdminUsers();
-      }
+      const data = await response.json();
+      alert(response.ok ? data.message : data.error);
     } catch (error) {
-      console.error("Error clearing socials:", error);
+      console.error("Resend verification error:", error);
     }
   };
 
-  const handleClearProfile = async (userId: number) => {
-    if (!token || !confirm("Are you sure you want to clear this user's profile content (skills, experience, etc.)? This is used to remove spam/abusive content.")) return;
+  const storeSession = (data: { token: string; refreshToken: string }) => {
+    setToken(data.token);
+    setRefreshToken(data.refreshToken);
+    localStorage.setItem("token", data.token);
+    localStorage.setItem("refreshToken", data.refreshToken);
+  };
+
+  const refreshSession = async () => {
+    // Another tab may already have rotated the tokens; adopt them rather than replaying the old refresh token
+    const storedToken = localStorage.getItem("token");
+    const storedRefreshToken = localStorage.getItem("refreshToken");
+    if (storedToken && storedRefreshToken && storedToken !== token && tokenExpiresAt(storedToken) - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+      setToken(storedToken);
+      setRefreshToken(storedRefreshToken);
+      return;
+    }
+    if (!storedRefreshToken) return clearSession();
+
     try {
-      const response = await fetch(`/api/admin/users/${userId}/clear-profile`, {
-        method: "PUT",
-        headers: { "Authorization": `Bearer ${token}` }
+      const response = await fetch("/api/auth/refresh", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken: storedRefreshToken }),
       });
+      const data = await response.json();
       if (response.ok) {
-        alert("Profile content cleared");
-        fetchAdminUsers();
+        storeSession(data);
+        // The server re-reads the account on refresh; only role changes need to reach the UI here
+        setUser(prev => prev ? { ...prev, role: data.user.role, permissions: data.user.permissions } : prev);
+      } else if (response.status === 401 || response.status === 403) {
+        // A tab that refreshed at the same moment may have rotated the token we sent; use its result if so
+        const latestToken = localStorage.getItem("token");
+        const latestRefreshToken = localStorage.getItem("refreshToken");
+        if (latestToken && latestRefreshToken && latestRefreshToken !== storedRefreshToken) {
+          setToken(latestToken);
+          setRefreshToken(latestRefreshToken);
+        } else {
+          clearSession();
+        }
       }
     } catch (error) {
-      console.error("Error clearing profile:", error);
+      console.error("Session refresh error:", error);
     }
   };
 
-  const handleResetPassword = async (userId: number) => {
-    const newPassword = prompt("Enter new password:");
-    if (!newPassword || !token) return;
+  useEffect(() => {
+    if (!refreshToken) return;
+    const delay = token ? tokenExpiresAt(token) - Date.now() - TOKEN_REFRESH_MARGIN_MS : 0;
+    const timer = setTimeout(refreshSession, Math.max(delay, 0));
+    return () => clearTimeout(timer);
+  }, [token, refreshToken]);
+
+  const fetchSessions = async () => {
+    if (!token) return;
     try {
-      const response = await fetch(`/api/admin/users/${userId}/reset-password`, {
-        method: "PUT",
-        headers: { 
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`
-        },
-        body: JSON.stringify({ newPassword })
+      const response = await fetch("/api/auth/sessions", {
+        headers: { "Authorization": `Bearer ${token}` }
       });
-      if (response.ok) {
-        alert("Password reset successful");
-      }
+      if (response.ok) setSessions(await response.json());
     } catch (error) {
-      console.error("Error resetting password:", error);
+      console.error("Error fetching sessions:", error);
     }
   };
 
-  const handleRemoveJob = async (jobId: number) => {
-    if (!token || !confirm("Are you sure you want to remove this job posting?")) return;
+  useEffect(() => {
+    if (isProfileModalOpen) fetchSessions();
+  }, [isProfileModalOpen]);
+
+  const handleRevokeSession = async (sessionId: number) => {
+    if (!token) return;
     try {
-      const response = await fetch(`/api/admin/jobs/${jobId}`, {
+      const response = await fetch(`/api/auth/sessions/${sessionId}`, {
         method: "DELETE",
         headers: { "Authorization": `Bearer ${token}` }
       });
-      if (response.ok) {
-        fetchJobs();
-      }
+      if (response.ok) fetchSessions();
     } catch (error) {
-      console.error("Error removing job:", error);
+      console.error("Error revoking session:", error);
     }
   };
 
-  const handlePostJob = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!token) {
-      setIsAuthModalOpen(true);
-      return;
+  const handleRevokeOtherSessions = async () => {
+    if (!token || !confirm("Sign out of every other device?")) return;
+    try {
+      const response = await fetch("/api/auth/sessions/revoke-others", {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) fetchSessions();
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
     }
+  };
 
-    if (!newJob.title || !newJob.company || !newJob.link) {
-      alert("Please fill in all required fields (Title, Company, and Link).");
-      return;
+  const handleLogout = () => {
+    const storedRefreshToken = localStorage.getItem("refreshToken");
+    if (storedRefreshToken) {
+      fetch("/api/auth/logout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken: storedRefreshToken }),
+      }).catch(error => console.error("Logout error:", error));
     }
+    clearSession();
+  };
 
-    setIsSubmitting(true);
+  // Drops the session from this tab only, without telling the server
+  const clearSession = () => {
+    setToken(null);
+    setRefreshToken(null);
+    setUser(null);
+    localStorage.removeItem("token");
+    localStorage.removeItem("refreshToken");
+    setSessions([]);
+    setTwoFactorStatus(null);
+    setSelfCurrentPassword("");
+    setSelfResetPassword("");
+    setMyApplications([]);
+    setMyPostings([]);
+    setSavedJobIds([]);
+    setShowSavedOnly(false);
+    setSavedSearches([]);
+    setNotifications([]);
+    setUnreadCount(0);
+    setIsNotificationsOpen(false);
+    setPhoneInput("");
+    setPhoneCodeSent(false);
+    if (activeTab === "applications" || activeTab === "postings" || activeTab === "directory") setActiveTab("jobs");
+    setRecommendedJobs([]);
+    setDirectoryProfiles([]);
+    setViewedProfile(null);
+    setEntryForm(null);
+    setSkillInput("");
+    setProfile({ 
+      name: "", email: "", role: "user", photo_url: "", contact_details: "", location: "",
+      skills: [], experiences: [], education: [], resume_url: "",
+      portfolio_url: "", linkedin_url: "", github_url: "", is_public: true 
+    });
+  };
+
+  const fetchMyProfile = async () => {
+    if (!token) return;
     try {
-      const response = await fetch("/api/jobs", {
-        method: "POST",
-        headers: { 
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`
-        },
-        body: JSON.stringify(newJob),
+      const response = await fetch("/api/profile/me", {
+        headers: { "Authorization": `Bearer ${token}` }
       });
-      
-      const data = await response.json();
-      
       if (response.ok) {
-        fetchJobs();
-        setIsModalOpen(false);
-        setNewJob({
-          title: "",
-          company: "",
-          category: "IT",
-          location: "",
-          experience: "Entry Level",
-          salary: "",
-          requirements: "",
-          link: "",
-          link_type: "Other",
-          posted_by: user?.username || "",
+        const data = await response.json();
+        setProfile({
+          name: data.name || "",
+          email: data.email || "",
+          role: data.role || "user",
+          photo_url: data.photo_url || "",
+          contact_details: data.contact_details || "",
+          location: data.location || "",
+          skills: data.skills,
+          experiences: data.experiences,
+          education: data.education,
+          resume_url: data.resume_url || "",
+          portfolio_url: data.portfolio_url || "",
+          linkedin_url: data.linkedin_url || "",
+          github_url: data.github_url || "",
+          is_public: data.is_public === 1,
         });
-        setMagicLink("");
-        alert("Job posted successfully!");
-      } else {
-        alert(data.error || "Failed to post job. Please try again.");
+        setUser({
+          id: data.user_id,
+          username: data.username,
+          email: data.email,
+          role: data.role,
+          is_public: data.is_public,
+          email_verified: data.email_verified,
+          phone: data.phone,
+          phone_verified: data.phone_verified,
+          totp_enabled: data.totp_enabled,
+          must_change_password: data.must_change_password,
+          permissions: data.permissions
+        });
+        setPhoneInput(data.phone || "");
+      } else if (response.status === 401) {
+        handleLogout();
       }
     } catch (error) {
-      console.error("Error posting job:", error);
-      alert("An error occurred while posting the job.");
-    } finally {
-      setIsSubmitting(false);
+      console.error("Error fetching profile:", error);
     }
   };
 
-  const handleSaveProfile = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const fetchMyApplications = async () => {
     if (!token) return;
     try {
-      const response = await fetch("/api/profile/me", {
-        method: "PUT",
-        headers: { 
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${token}`
-        },
-        body: JSON.stringify(profile),
+      const response = await fetch("/api/applications/me", {
+        headers: { "Authorization": `Bearer ${token}` }
       });
       if (response.ok) {
-        setIsProfileModalOpen(false);
-        alert("Profile saved successfully!");
-        fetchMyProfile();
+        const data = await response.json();
+        setMyApplications(data);
       }
     } catch (error) {
-      console.error("Error saving profile:", error);
+      console.error("Error fetching applications:", error);
     }
   };
 
-  const fetchJobs = async () => {
+  const fetchRecommendedJobs = async () => {
+    if (!token) return;
     try {
-      const response = await fetch("/api/jobs");
-      const data = await response.json();
-      setJobs(data);
+      const response = await fetch("/api/jobs/recommended", {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setRecommendedJobs(data.jobs);
+      }
     } catch (error) {
-      console.error("Error fetching jobs:", error);
-    } finally {
-      setIsLoading(false);
+      console.error("Error fetching recommended jobs:", error);
     }
   };
 
-  useEffect(() => {
-    let result = [...jobs];
-
-    // Filter by category
-    if (selectedCategory !== "All") {
-      result = result.filter((job) => job.category === selectedCategory);
-    }
-
-    // Filter by experience
-    if (selectedExperience !== "Any") {
-      result = result.filter((job) => job.experience === selectedExperience);
-    }
-
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(
-        (job) =>
-          job.title.toLowerCase().includes(query) ||
-          job.company.toLowerCase().includes(query)
-      );
+  const fetchSavedJobIds = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/saved-jobs", {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data: Job[] = await response.json();
+        setSavedJobIds(data.map(job => job.id));
+      }
+    } catch (error) {
+      console.error("Error fetching saved jobs:", error);
     }
+  };
 
-    // Filter by location query
-    if (locationQuery.trim()) {
-      const lQuery = locationQuery.toLowerCase();
-      result = result.filter(
-        (job) => job.location?.toLowerCase().includes(lQuery)
-      );
+  const toggleSaveJob = async (jobId: number) => {
+    if (!token) {
+      setAuthMode("login");
+      setIsAuthModalOpen(true);
+      return;
     }
+    const isSaved = savedJobIds.includes(jobId);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/save`, {
+        method: isSaved ? "DELETE" : "POST",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        setSavedJobIds(prev => isSaved ? prev.filter(id => id !== jobId) : [...prev, jobId]);
+        if (showSavedOnly) fetchJobs();
+      }
+    } catch (error) {
+      console.error("Error saving job:", error);
+    }
+  };
 
-    // Sort by date
-    result.sort((a, b) => {
-      const dateA = new Date(a.created_at).getTime();
-      const dateB = new Date(b.created_at).getTime();
-      return sortOrder === "newest" ? dateB - dateA : dateA - dateB;
-    });
+  const fetchNotifications = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/notifications", {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    }
+  };
 
-    setFilteredJobs(result);
-    setCurrentPage(1); // Reset to first page on filter/search change
-  }, [selectedCategory, selectedExperience, searchQuery, locationQuery, sortOrder, jobs]);
+  const handleNotificationClick = async (notification: AppNotification) => {
+    if (!token) return;
+    if (!notification.is_read) {
+      try {
+        await fetch(`/api/notifications/${notification.id}/read`, {
+          method: "PUT",
+          headers: { "Authorization": `Bearer ${token}` }
+        });
+        setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, is_read: 1 } : n));
+        setUnreadCount(count => Math.max(0, count - 1));
+      } catch (error) {
+        console.error("Error marking notification read:", error);
+      }
+    }
+    if (notification.link === "jobs" || notification.link === "applications" || notification.link === "postings") {
+      setActiveTab(notification.link);
+      setIsNotificationsOpen(false);
+      if (notification.link === "applications") fetchMyApplications();
+      if (notification.link === "jobs") fetchSavedSearches();
+    }
+  };
 
-  useEffect(() => {
-    if (activeTab === 'admin') {
-      fetchAdminUsers();
+  const handleMarkAllRead = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/notifications/read-all", {
+        method: "PUT",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        setNotifications(prev => prev.map(n => ({ ...n, is_read: 1 })));
+        setUnreadCount(0);
+      }
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
     }
-  }, [activeTab]);
+  };
 
-  const totalPages = Math.ceil(filteredJobs.length / ITEMS_PER_PAGE);
-  const paginatedJobs = filteredJobs.slice(
-    (currentPage - 1) * ITEMS_PER_PAGE,
-    currentPage * ITEMS_PER_PAGE
-  );
+  const fetchSavedSearches = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/saved-searches", {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setSavedSearches(data);
+      }
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+    }
+  };
 
-  const handleMagicExtract = async () => {
-    if (!magicLink || !magicLink.startsWith("http")) return;
+  const handleSaveSearch = async () => {
+    if (!token) return;
+    const suggestedName = [searchQuery.trim(), locationQuery.trim(), selectedCategory !== "All" ? selectedCategory : ""]
+      .filter(Boolean).join(" · ") || "All jobs";
+    const name = prompt("Name this search. You'll be alerted when new jobs match it.", suggestedName);
+    if (!name) return;
+    try {
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          name,
+          category: selectedCategory,
+          experience: selectedExperience,
+          search: searchQuery.trim(),
+          location: locationQuery.trim(),
+        })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setSavedSearches(prev => [data, ...prev]);
+      } else {
+        alert(data.error || "Failed to save search");
+      }
+    } catch (error) {
+      console.error("Error saving search:", error);
+    }
+  };
 
-    setIsExtracting(true);
+  const applySavedSearch = async (search: SavedSearch) => {
+    setSelectedCategory(search.category || "All");
+    setSelectedExperience(search.experience || "Any");
+    setSearchQuery(search.search || "");
+    setLocationQuery(search.location || "");
+    setShowSavedOnly(false);
+    if (!token || search.new_match_count === 0) return;
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Extract job details from this URL: ${magicLink}. 
-        Return ONLY a JSON object with these keys: title, company, category, location, experience, salary, requirements.
-        Category MUST be one of: ${CATEGORIES.filter(c => c !== "All").join(", ")}.
-        Experience MUST be one of: ${EXPERIENCE_LEVELS.filter(e => e !== "Any").join(", ")}.
-        If you can't determine a field, use an empty string or 'Other' for category.`,
-        config: {
-          responseMimeType: "application/json",
-          tools: [{ urlContext: {} }]
-        }
+      await fetch(`/api/saved-searches/${search.id}/seen`, {
+        method: "PUT",
+        headers: { "Authorization": `Bearer ${token}` }
       });
+      setSavedSearches(prev => prev.map(s => s.id === search.id ? { ...s, new_match_count: 0 } : s));
+    } catch (error) {
+      console.error("Error updating saved search:", error);
+    }
+  };
 
-      const result = JSON.parse(response.text || "{}");
-      if (result.title || result.company) {
-        setNewJob(prev => ({
-          ...prev,
-          title: result.title || prev.title,
-          company: result.company || prev.company,
-          category: result.category || prev.category,
-          location: result.location || prev.location,
-          experience: result.experience || prev.experience,
-          salary: result.salary || prev.salary,
-          requirements: result.requirements || prev.requirements,
-          link: magicLink,
-          link_type: detectLinkType(magicLink)
-        }));
-        alert("Details extracted successfully! Please review and complete the form.");
+  const handleDeleteSavedSearch = async (searchId: number) => {
+    if (!token || !confirm("Delete this saved search and stop its alerts?")) return;
+    try {
+      const response = await fetch(`/api/saved-searches/${searchId}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        setSavedSearches(prev => prev.filter(s => s.id !== searchId));
+      }
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+    }
+  };
+
+  const openApplyModal = (job: Job) => {
+    if (!token) {
+      setAuthMode("login");
+      setIsAuthModalOpen(true);
+      return;
+    }
+    if (!user?.email_verified) {
+      alert("Please verify your email address before applying.");
+      return;
+    }
+    setCoverNote("");
+    setApplyJob(job);
+  };
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !applyJob) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/jobs/${applyJob.id}/apply`, {
+        method: "POST",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({ cover_note: coverNote })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setApplyJob(null);
+        setCoverNote("");
+        fetchMyApplications();
+        fetchRecommendedJobs();
+        alert("Application submitted!");
       } else {
-        alert("Could not extract clear job details from this link. Please fill in the details manually.");
+        alert(data.error || "Failed to submit application");
       }
     } catch (error) {
-      console.error("Extraction failed:", error);
-      alert("Extraction failed. The link might be private or restricted. Please fill in the details manually.");
+      console.error("Error applying:", error);
+      alert("An error occurred while submitting your application.");
     } finally {
-      setIsExtracting(false);
+      setIsSubmitting(false);
     }
   };
 
-  return (
-    <div className="min-h-screen bg-[#F8F9FB] text-slate-900 font-sans selection:bg-indigo-100 selection:text-indigo-900">
-      {/* Header */}
-      <header className="glass-panel sticky top-0 z-50 px-4 sm:px-6 lg:px-8">
-        <div className="max-w-7xl mx-auto h-20 flex items-center justify-between gap-4">
-          <div className="flex items-center gap-8">
-            <motion.div 
-              whileHover={{ scale: 1.05 }}
-              className="flex items-center gap-2.5 cursor-pointer"
-              onClick={() => setActiveTab("jobs")}
-            >
-              <div className="bg-indigo-600 p-2.5 rounded-2xl shadow-lg shadow-indigo-500/30">
-                <Briefcase className="text-white w-6 h-6" />
-              </div>
-              <h1 className="text-xl font-display font-bold tracking-tight text-slate-900">ANKUR <span className="text-indigo-600">JOBS</span></h1>
-            </motion.div>
-            
-            <nav className="hidden md:flex items-center gap-1 bg-slate-100/50 p-1 rounded-2xl border border-slate-200/50">
-              <button 
-                onClick={() => setActiveTab("jobs")}
-                className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all ${activeTab === "jobs" ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"}`}
-              >
-                Find Jobs
-              </button>
-              <button 
-                onClick={() => setIsProfileModalOpen(true)}
-                className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all text-slate-500 hover:text-slate-700`}
-              >
-                My Profile
-              </button>
-              {user?.role === 'admin' && (
-                <button 
-                  onClick={() => setActiveTab("admin")}
-                  className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all ${activeTab === "admin" ? "bg-red-50 text-red-600" : "text-slate-500 hover:text-slate-700"}`}
-                >
-                  Admin Panel
-                </button>
-              )}
-            </nav>
-          </div>
+  const openApplicants = async (job: Job) => {
+    if (!token) return;
+    setApplicants([]);
+    setApplicationHistory({});
+    setApplicantsJob(job);
+    fetchApplicants(job);
+  };
 
-          <div className="flex items-center gap-4">
-            {token ? (
-              <div className="flex items-center gap-4">
-                <div className="hidden sm:flex flex-col items-end">
-                  <span className="text-sm font-bold text-slate-900">{user?.username}</span>
-                  <span className="text-[10px] font-medium text-slate-400 uppercase tracking-wider">{user?.role}</span>
-                </div>
-                <button 
-                  onClick={() => setIsProfileModalOpen(true)}
-                  className="w-10 h-10 rounded-2xl bg-indigo-50 border border-indigo-100 flex items-center justify-center text-indigo-600 hover:bg-indigo-100 transition-all"
-                >
-                  <User size={20} />
-                </button>
-                <button 
-                  onClick={handleLogout}
-                  className="p-2.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-2xl transition-all"
-                  title="Logout"
-                >
-                  <LogOut size={20} />
-                </button>
-              </div>
-            ) : (
-              <button 
-                onClick={() => { setAuthMode("login"); setIsAuthModalOpen(true); }}
-                className="btn-primary"
-              >
-                Sign In
-              </button>
-            )}
-          </div>
-        </div>
-      </header>
+  const fetchApplicants = async (job: Job) => {
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/applications`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setApplicants(data);
+      }
+    } catch (error) {
+      console.error("Error fetching applicants:", error);
+    }
+  };
 
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
-        {activeTab === "admin" && user?.role === 'admin' ? (
-          <div className="space-y-8">
-            <div className="flex justify-between items-center">
-              <div>
-                <h2 className="text-3xl font-bold tracking-tight">Admin Dashboard</h2>
-                <p className="text-gray-500 mt-1">Platform overview and moderation</p>
-              </div>
-              <div className="flex items-center gap-2">
-                <button 
-                  onClick={() => setIsSelfResetModalOpen(true)}
-                  className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-sm font-bold hover:bg-indigo-100 transition-all flex items-center gap-2"
-                >
-                  <Lock size={14} />
-                  Change My Password
-                </button>
-                <button 
-                  onClick={() => { fetchAdminStats(); fetchAdminUsers(); }}
-                  className="p-2 hover:bg-gray-100 rounded-xl transition-all"
-                >
-                  <RefreshCw className={`w-5 h-5 text-gray-400 ${isAdminLoading ? 'animate-spin' : ''}`} />
-                </button>
-              </div>
-            </div>
+  const handleApplicationStatus = async (applicationId: number, status: string, isApplicant: boolean) => {
+    if (!token) return;
+    let note: string | null = null;
+    if (isApplicant) {
+      if (!confirm("Are you sure you want to withdraw this application?")) return;
+    } else {
+      note = prompt(`Move to "${status}". Add a private note (optional):`);
+      if (note === null) return;
+    }
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/status`, {
+        method: "PUT",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({ status, note })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        if (applicantsJob) fetchApplicants(applicantsJob);
+        fetchMyApplications();
+        setApplicationHistory(({ [applicationId]: _, ...rest }) => rest);
+      } else {
+        alert(data.error || "Failed to update application");
+      }
+    } catch (error) {
+      console.error("Error updating application:", error);
+    }
+  };
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+  const toggleApplicationHistory = async (applicationId: number) => {
+    if (!token) return;
+    if (applicationHistory[applicationId]) {
+      setApplicationHistory(({ [applicationId]: _, ...rest }) => rest);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/history`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setApplicationHistory(prev => ({ ...prev, [applicationId]: data }));
+      }
+    } catch (error) {
+      console.error("Error fetching application history:", error);
+    }
+  };
+
+  const handleResumeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !token) return;
+
+    const formData = new FormData();
+    formData.append("resume", file);
+
+    setIsUploading(true);
+    try {
+      const response = await fetch("/api/upload/resume", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`
+        },
+        body: formData
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setProfile({ ...profile, resume_url: data.url });
+      } else {
+        const error = await response.json();
+        alert(error.error || "Upload failed");
+      }
+    } catch (error) {
+      console.error("Upload error:", error);
+      alert("An error occurred during upload");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !token) return;
+
+    const formData = new FormData();
+    formData.append("photo", file);
+
+    setIsUploading(true);
+    try {
+      const response = await fetch("/api/upload/photo", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`
+        },
+        body: formData
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setProfile({ ...profile, photo_url: data.url });
+      } else {
+        const error = await response.json();
+        alert(error.error || "Upload failed");
+      }
+    } catch (error) {
+      console.error("Photo upload error:", error);
+      alert("An error occurred during photo upload");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const detectLinkType = (url: string) => {
+    if (url.includes("linkedin.com")) return "LinkedIn";
+    if (url.includes("twitter.com") || url.includes("x.com")) return "Twitter";
+    if (url.includes("instagram.com")) return "Instagram";
+    if (url.includes("github.com")) return "GitHub";
+    return "Other";
+  };
+
+  const getLinkIcon = (type: string) => {
+    switch (type) {
+      case "LinkedIn": return <Linkedin size={14} className="text-[#0A66C2]" />;
+      case "Twitter": return <Twitter size={14} className="text-[#1DA1F2]" />;
+      case "Instagram": return <Instagram size={14} className="text-[#E4405F]" />;
+      case "GitHub": return <Github size={14} className="text-[#181717]" />;
+      default: return <Globe size={14} className="text-gray-400" />;
+    }
+  };
+
+  const fetchAdminStats = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/admin/stats", {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setAdminStats(data);
+      }
+    } catch (error) {
+      console.error("Error fetching stats:", error);
+    }
+  };
+
+  const fetchAdminUsers = async () => {
+    if (!token || !can("users.view")) return;
+    setIsAdminLoading(true);
+    try {
+      const response = await fetch("/api/admin/users", {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setAdminUsers(data);
+      }
+    } catch (error) {
+      console.error("Error fetching admin users:", error);
+    } finally {
+      setIsAdminLoading(false);
+    }
+  };
+
+  const handleSuspendUser = async (userId: number, isSuspended: boolean) => {
+    if (!token) return;
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/suspend`, {
+        method: "PUT",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({ is_suspended: !isSuspended })
+      });
+      if (response.ok) {
+        fetchAdminUsers();
+      }
+    } catch (error) {
+      console.error("Error suspending user:", error);
+    }
+  };
+
+  const handleDeleteUser = async (userId: number) => {
+    if (!token || !confirm("Move this user to the trash? They are signed out and hidden along with their postings until restored or purged.")) return;
+    try {
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (response.ok) {
+        fetchAdminUsers();
+        fetchJobs();
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error deleting user:", error);
+    }
+  };
+
+  const handleSelfResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selfResetPassword || !selfCurrentPassword || !token) return;
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({ currentPassword: selfCurrentPassword, newPassword: selfResetPassword })
+      });
+      if (response.ok) {
+        alert("Password updated successfully");
+        setIsSelfResetModalOpen(false);
+        setSelfResetPassword("");
+        setSelfCurrentPassword("");
+        if (user?.must_change_password) {
+          setUser(prev => prev ? { ...prev, must_change_password: 0 } : prev);
+          fetchAdminStats();
+          fetchAdminUsers();
+        }
+      } else {
+        const error = await response.json();
+        alert(apiErrorMessage(error, "Failed to update password"));
+      }
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      alert("An error occurred");
+    }
+  };
+
+  const handleClearSocials = async (userId: number) => {
+    if (!token || !confirm("Are you sure you want to remove all social media links for this user?")) return;
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/clear-socials`, {
+        method: "PUT",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        alert("Social links removed");
+        fetchAdminUsers();
+      }
+    } catch (error) {
+      console.error("Error clearing socials:", error);
+    }
+  };
+
+  const handleClearProfile = async (userId: number) => {
+    if (!token || !confirm("Are you sure you want to clear this user's profile content (skills, experience, etc.)? This is used to remove spam/abusive content.")) return;
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/clear-profile`, {
+        method: "PUT",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        alert("Profile content cleared");
+        fetchAdminUsers();
+      }
+    } catch (error) {
+      console.error("Error clearing profile:", error);
+    }
+  };
+
+  const handleResetPassword = async (userId: number) => {
+    const newPassword = prompt("Enter new password:");
+    if (!newPassword || !token) return;
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/reset-password`, {
+        method: "PUT",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({ newPassword })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        alert("Password reset successful");
+      } else {
+        alert(apiErrorMessage(data));
+      }
+    } catch (error) {
+      console.error("Error resetting password:", error);
+    }
+  };
+
+  const handleResetUserTwoFactor = async (userId: number) => {
+    if (!token || !confirm("Reset this user's two-factor authentication? They will sign in with just their password until they enroll again.")) return;
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/2fa`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        alert("Two-factor authentication reset");
+        fetchAdminUsers();
+      }
+    } catch (error) {
+      console.error("Error resetting two-factor:", error);
+    }
+  };
+
+  const handleRevokeUserSessions = async (userId: number) => {
+    if (!token || !confirm("Sign this user out of every device?")) return;
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/sessions`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        alert("User signed out everywhere");
+      }
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+    }
+  };
+
+  const handleRemoveJob = async (jobId: number) => {
+    if (!token || !confirm("Move this job posting to the trash?")) return;
+    try {
+      const response = await fetch(`/api/admin/jobs/${jobId}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        fetchJobs();
+        fetchAdminJobs();
+      }
+    } catch (error) {
+      console.error("Error removing job:", error);
+    }
+  };
+
+  const resetJobForm = () => {
+    setNewJob({
+      title: "",
+      company: "",
+      category: "IT",
+      location: "",
+      experience: "Entry Level",
+      salary: "",
+      requirements: "",
+      link: "",
+      link_type: "Other",
+      posted_by: user?.username || "",
+      expires_at: "",
+    });
+    setEditingJobId(null);
+    setMagicLink("");
+  };
+
+  const closeJobModal = () => {
+    setIsModalOpen(false);
+    setMagicLink("");
+    // Keep an unfinished new posting as a draft, but never carry edits over to the next post
+    if (editingJobId) resetJobForm();
+  };
+
+  const openEditJob = (job: Job) => {
+    setNewJob({
+      title: job.title,
+      company: job.company,
+      category: job.category,
+      location: job.location || "",
+      experience: job.experience || "Entry Level",
+      salary: job.salary || "",
+      requirements: job.requirements || "",
+      link: job.link,
+      link_type: job.link_type || "Other",
+      posted_by: job.posted_by,
+      expires_at: "", // left blank keeps the current expiry
+    });
+    setEditingJobId(job.id);
+    setIsModalOpen(true);
+  };
+
+  const fetchMyPostings = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/jobs/mine", {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setMyPostings(data);
+      }
+    } catch (error) {
+      console.error("Error fetching postings:", error);
+    }
+  };
+
+  const handleJobStatusChange = async (job: Job, status: string) => {
+    if (!token) return;
+    try {
+      const response = await fetch(`/api/jobs/${job.id}`, {
+        method: "PUT",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({ ...job, status })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        fetchMyPostings();
+        fetchJobs();
+      } else {
+        alert(data.error || "Failed to update job status");
+      }
+    } catch (error) {
+      console.error("Error updating job status:", error);
+    }
+  };
+
+  const handleRenewJob = async (jobId: number) => {
+    if (!token) return;
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/renew`, {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (response.ok) {
+        fetchMyPostings();
+        fetchJobs();
+        alert(`Posting renewed until ${new Date(data.expires_at).toLocaleDateString()}`);
+      } else {
+        alert(data.error || "Failed to renew job");
+      }
+    } catch (error) {
+      console.error("Error renewing job:", error);
+    }
+  };
+
+  const handleDeleteJob = async (jobId: number) => {
+    if (!token || !confirm("Delete this posting? It moves to the trash with its applications, and an admin can restore it until it is purged.")) return;
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        fetchMyPostings();
+        fetchJobs();
+      }
+    } catch (error) {
+      console.error("Error deleting job:", error);
+    }
+  };
+
+  const handlePostJob = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) {
+      setIsAuthModalOpen(true);
+      return;
+    }
+
+    if (!newJob.title || !newJob.company || !newJob.link) {
+      alert("Please fill in all required fields (Title, Company, and Link).");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(editingJobId ? `/api/jobs/${editingJobId}` : "/api/jobs", {
+        method: editingJobId ? "PUT" : "POST",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify(newJob),
+      });
+      
+      const data = await response.json();
+      
+      if (response.ok) {
+        fetchJobs();
+        fetchMyPostings();
+        setIsModalOpen(false);
+        resetJobForm();
+        alert(editingJobId ? "Job updated successfully!" : "Job posted successfully!");
+      } else {
+        alert(data.error || "Failed to save job. Please try again.");
+      }
+    } catch (error) {
+      console.error("Error posting job:", error);
+      alert("An error occurred while posting the job.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    try {
+      const response = await fetch("/api/profile/me", {
+        method: "PUT",
+        headers: { 
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify(profile),
+      });
+      if (response.ok) {
+        setIsProfileModalOpen(false);
+        alert("Profile saved successfully!");
+        fetchMyProfile();
+        fetchRecommendedJobs();
+      }
+    } catch (error) {
+      console.error("Error saving profile:", error);
+    }
+  };
+
+  // Reloads only the structured sections so unsaved edits elsewhere in the profile modal are kept
+  const refreshProfileSections = async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/profile/me", {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setProfile(prev => ({ ...prev, skills: data.skills, experiences: data.experiences, education: data.education }));
+        fetchRecommendedJobs();
+      }
+    } catch (error) {
+      console.error("Error fetching profile sections:", error);
+    }
+  };
+
+  const saveSkills = async (skills: string[]) => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/profile/me/skills", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({ skills }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setProfile(prev => ({ ...prev, skills: data.skills }));
+        fetchRecommendedJobs();
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error saving skills:", error);
+    }
+  };
+
+  const handleAddSkill = () => {
+    const skill = skillInput.trim().replace(/,$/, "");
+    setSkillInput("");
+    if (skill) saveSkills([...profile.skills, skill]);
+  };
+
+  const handleSaveEntry = async () => {
+    if (!token || !entryForm) return;
+    try {
+      const response = await fetch(`/api/profile/me/${entryForm.type}${entryForm.id ? `/${entryForm.id}` : ""}`, {
+        method: entryForm.id ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify(entryForm.values),
+      });
+      if (response.ok) {
+        setEntryForm(null);
+        refreshProfileSections();
+      } else {
+        const data = await response.json();
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error saving profile entry:", error);
+    }
+  };
+
+  const handleDeleteEntry = async (type: ProfileEntryType, id: number) => {
+    if (!token || !confirm("Remove this entry from your profile?")) return;
+    try {
+      const response = await fetch(`/api/profile/me/${type}/${id}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) refreshProfileSections();
+    } catch (error) {
+      console.error("Error removing profile entry:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!token || !skillInput.trim()) return setSkillSuggestions([]);
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/skills?q=${encodeURIComponent(skillInput.trim())}`, {
+          headers: { "Authorization": `Bearer ${token}` }
+        });
+        if (response.ok) setSkillSuggestions((await response.json()).map((skill: { name: string }) => skill.name));
+      } catch (error) {
+        console.error("Error fetching skill suggestions:", error);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [skillInput]);
+
+  const isSearching = searchQuery.trim().length > 0;
+  const sortOptions: SortOrder[] = isSearching ? ["relevance", "newest", "oldest"] : ["newest", "oldest"];
+
+  const fetchJobs = async () => {
+    try {
+      const params = new URLSearchParams({
+        category: selectedCategory,
+        experience: selectedExperience,
+        location: locationQuery.trim(),
+        sort: sortOrder,
+        page: String(currentPage),
+        pageSize: String(ITEMS_PER_PAGE),
+      });
+      if (isSearching) {
+        params.set("q", searchQuery.trim());
+      }
+      if (showSavedOnly) {
+        params.set("saved", "1");
+      }
+      const response = await fetch(`${isSearching ? "/api/jobs/search" : "/api/jobs"}?${params}`, {
+        headers: token ? { "Authorization": `Bearer ${token}` } : {}
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setJobs(data.jobs);
+        setTotalJobs(data.total);
+        setTotalPages(data.totalPages);
+      }
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchAdminJobs = async () => {
+    if (!token || !can("jobs.moderate")) return;
+    try {
+      const archived = adminJobsFilter === "archived" ? "1" : adminJobsFilter === "live" ? "0" : "";
+      const response = await fetch(`/api/admin/jobs?archived=${archived}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setAdminJobs(data);
+      }
+    } catch (error) {
+      console.error("Error fetching admin jobs:", error);
+    }
+  };
+
+  const fetchAccessSettings = async () => {
+    if (!token || !can("registration.manage")) return;
+    try {
+      const headers = { "Authorization": `Bearer ${token}` };
+      const [domainsResponse, invitesResponse] = await Promise.all([
+        fetch("/api/admin/email-domains", { headers }),
+        fetch("/api/admin/invites", { headers }),
+      ]);
+      if (domainsResponse.ok) setAllowedDomains(await domainsResponse.json());
+      if (invitesResponse.ok) setInvites(await invitesResponse.json());
+    } catch (error) {
+      console.error("Error fetching access settings:", error);
+    }
+  };
+
+  const handleAddDomain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !newDomain.trim()) return;
+    try {
+      const response = await fetch("/api/admin/email-domains", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Authorization": `Bearer ${token}` },
+        body: JSON.stringify({ domain: newDomain })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setNewDomain("");
+        fetchAccessSettings();
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error adding domain:", error);
+    }
+  };
+
+  const handleRemoveDomain = async (domain: AllowedDomain) => {
+    if (!token || !confirm(`Stop allowing sign-ups from @${domain.domain}?`)) return;
+    try {
+      const response = await fetch(`/api/admin/email-domains/${domain.id}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) fetchAccessSettings();
+    } catch (error) {
+      console.error("Error removing domain:", error);
+    }
+  };
+
+  const handleCreateInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    try {
+      const response = await fetch("/api/admin/invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Authorization": `Bearer ${token}` },
+        body: JSON.stringify(inviteForm)
+      });
+      const data = await response.json();
+      if (response.ok) {
+        fetchAccessSettings();
+        copyInviteLink(data);
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error creating invite:", error);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: Invite) => {
+    if (!token || !confirm(`Revoke invite ${invite.code}? It can no longer be used to sign up.`)) return;
+    try {
+      const response = await fetch(`/api/admin/invites/${invite.id}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) fetchAccessSettings();
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+    }
+  };
+
+  const copyInviteLink = async (invite: Invite) => {
+    try {
+      await navigator.clipboard.writeText(invite.link);
+      alert(`Invite link copied:\n${invite.link}`);
+    } catch {
+      prompt("Copy this invite link:", invite.link);
+    }
+  };
+
+  const inviteState = (invite: Invite) => {
+    if (invite.revoked_at) return "revoked";
+    if (invite.expires_at && new Date(invite.expires_at.replace(" ", "T") + "Z") <= new Date()) return "expired";
+    if (invite.uses >= invite.max_uses) return "used up";
+    return "active";
+  };
+
+  const fetchLoginSecurity = async () => {
+    if (!token || !can("security.manage")) return;
+    try {
+      const headers = { "Authorization": `Bearer ${token}` };
+      const [lockoutsResponse, attemptsResponse] = await Promise.all([
+        fetch("/api/admin/security/lockouts", { headers }),
+        fetch("/api/admin/security/login-attempts", { headers }),
+      ]);
+      if (lockoutsResponse.ok) setLoginLockouts(await lockoutsResponse.json());
+      if (attemptsResponse.ok) setLoginAttempts(await attemptsResponse.json());
+    } catch (error) {
+      console.error("Error fetching login security:", error);
+    }
+  };
+
+  const handleClearLockout = async (lockout: LoginLockout) => {
+    if (!token || !confirm(`Clear failed sign-ins for ${lockout.label}?`)) return;
+    try {
+      const response = await fetch(`/api/admin/security/lockouts/${lockout.id}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) fetchLoginSecurity();
+    } catch (error) {
+      console.error("Error clearing lockout:", error);
+    }
+  };
+
+  const fetchTrash = async () => {
+    if (!token || !can("jobs.moderate")) return;
+    try {
+      const headers = { "Authorization": `Bearer ${token}` };
+      const [usersResponse, jobsResponse] = await Promise.all([
+        can("users.manage") ? fetch("/api/admin/trash/users", { headers }) : null,
+        fetch("/api/admin/trash/jobs", { headers }),
+      ]);
+      if (usersResponse?.ok) setTrashedUsers(await usersResponse.json());
+      if (jobsResponse.ok) setTrashedJobs(await jobsResponse.json());
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+    }
+  };
+
+  const handleRestoreFromTrash = async (type: "users" | "jobs", id: number) => {
+    if (!token) return;
+    try {
+      const response = await fetch(`/api/admin/trash/${type}/${id}/restore`, {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (response.ok) {
+        fetchTrash();
+        fetchJobs();
+        fetchAdminJobs();
+        if (type === "users") fetchAdminUsers();
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+    }
+  };
+
+  const handlePurgeFromTrash = async (type: "users" | "jobs", id: number) => {
+    if (!token || !confirm("Permanently delete this? It can't be restored afterwards.")) return;
+    try {
+      const response = await fetch(`/api/admin/trash/${type}/${id}`, {
+        method: "DELETE",
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) fetchTrash();
+    } catch (error) {
+      console.error("Error purging from trash:", error);
+    }
+  };
+
+  const fetchDirectory = async (page = directoryPage) => {
+    if (!token) return;
+    try {
+      const params = new URLSearchParams({ ...directoryFilters, page: String(page) });
+      const response = await fetch(`/api/profiles?${params}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setDirectoryProfiles(data.profiles);
+        setDirectoryPage(data.page);
+        setDirectoryTotalPages(Math.max(1, data.totalPages));
+      }
+    } catch (error) {
+      console.error("Error fetching directory:", error);
+    }
+  };
+
+  const openPublicProfile = async (username: string) => {
+    if (!token) return;
+    try {
+      const response = await fetch(`/api/profiles/${encodeURIComponent(username)}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setViewedProfile(data);
+      } else {
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+    }
+  };
+
+  const fetchCandidates = async (page = candidatePage) => {
+    if (!token || !can("candidates.search")) return;
+    try {
+      const params = new URLSearchParams({ ...candidateFilters, page: String(page) });
+      const response = await fetch(`/api/candidates?${params}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setCandidates(data.candidates);
+        setCandidatePage(data.page);
+        setCandidateTotalPages(Math.max(1, data.totalPages));
+      }
+    } catch (error) {
+      console.error("Error searching candidates:", error);
+    }
+  };
+
+  const fetchAuditLog = async (page = auditPage) => {
+    if (!token || !can("audit.view")) return;
+    try {
+      const params = new URLSearchParams({ ...auditFilters, page: String(page) });
+      const response = await fetch(`/api/admin/audit-log?${params}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setAuditEntries(data.entries);
+        setAuditActions(data.actions);
+        setAuditPage(data.page);
+        setAuditTotalPages(Math.max(1, data.totalPages));
+      }
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+    }
+  };
+
+  // The export needs the auth header, so it is fetched and handed to the browser as a blob download
+  const handleExportAuditLog = async () => {
+    if (!token) return;
+    try {
+      const params = new URLSearchParams({ ...auditFilters, format: "csv" });
+      const response = await fetch(`/api/admin/audit-log?${params}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (!response.ok) return alert("Failed to export audit log");
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+    }
+  };
+
+  const handleChangeRole = async (userId: number, role: string) => {
+    if (!token) return;
+    if (!confirm(`Change this user's role to ${role}?`)) return;
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/role`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify({ role }),
+      });
+      if (response.ok) {
+        fetchAdminUsers();
+      } else {
+        const data = await response.json();
+        alert(data.error);
+      }
+    } catch (error) {
+      console.error("Error changing role:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (adminSubTab === "access") fetchAccessSettings();
+    if (adminSubTab === "security") fetchLoginSecurity();
+    if (adminSubTab === "trash") fetchTrash();
+    if (adminSubTab === "candidates") fetchCandidates(1);
+    if (adminSubTab === "audit") fetchAuditLog(1);
+  }, [adminSubTab]);
+
+  useEffect(() => {
+    if (adminSubTab !== "audit") return;
+    const timeout = setTimeout(() => fetchAuditLog(1), 300);
+    return () => clearTimeout(timeout);
+  }, [auditFilters]);
+
+  useEffect(() => {
+    // Rank by relevance while searching, fall back to date order otherwise
+    setSortOrder(isSearching ? "relevance" : "newest");
+  }, [isSearching]);
+
+  useEffect(() => {
+    setCurrentPage(1); // Reset to first page on filter/search change
+  }, [selectedCategory, selectedExperience, searchQuery, locationQuery, sortOrder, showSavedOnly]);
+
+  useEffect(() => {
+    // Debounce so typing in the search boxes doesn't fire a request per keystroke
+    const timeout = setTimeout(fetchJobs, 300);
+    return () => clearTimeout(timeout);
+  }, [selectedCategory, selectedExperience, searchQuery, locationQuery, sortOrder, showSavedOnly, currentPage]);
+
+  useEffect(() => {
+    fetchAdminJobs();
+  }, [adminJobsFilter]);
+
+  useEffect(() => {
+    if (activeTab === 'postings') {
+      fetchMyPostings();
+    }
+  }, [activeTab]);
+
+  useEffect(() => {
+    if (activeTab === 'directory') {
+      fetchDirectory(1);
+    }
+  }, [activeTab]);
+
+  useEffect(() => {
+    if (activeTab === 'admin') {
+      fetchAdminUsers();
+      fetchAdminJobs();
+    }
+  }, [activeTab]);
+
+  const handleMagicExtract = async () => {
+    if (!magicLink || !magicLink.startsWith("http")) return;
+
+    setIsExtracting(true);
+    try {
+      const response = await ai.models.generateContent({
+        model: "gemini-3-flash-preview",
+        contents: `Extract job details from this URL: ${magicLink}. 
+        Return ONLY a JSON object with these keys: title, company, category, location, experience, salary, requirements.
+        Category MUST be one of: ${CATEGORIES.filter(c => c !== "All").join(", ")}.
+        Experience MUST be one of: ${EXPERIENCE_LEVELS.filter(e => e !== "Any").join(", ")}.
+        If you can't determine a field, use an empty string or 'Other' for category.`,
+        config: {
+          responseMimeType: "application/json",
+          tools: [{ urlContext: {} }]
+        }
+      });
+
+      const result = JSON.parse(response.text || "{}");
+      if (result.title || result.company) {
+        setNewJob(prev => ({
+          ...prev,
+          title: result.title || prev.title,
+          company: result.company || prev.company,
+          category: result.category || prev.category,
+          location: result.location || prev.location,
+          experience: result.experience || prev.experience,
+          salary: result.salary || prev.salary,
+          requirements: result.requirements || prev.requirements,
+          link: magicLink,
+          link_type: detectLinkType(magicLink)
+        }));
+        alert("Details extracted successfully! Please review and complete the form.");
+      } else {
+        alert("Could not extract clear job details from this link. Please fill in the details manually.");
+      }
+    } catch (error) {
+      console.error("Extraction failed:", error);
+      alert("Extraction failed. The link might be private or restricted. Please fill in the details manually.");
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F8F9FB] text-slate-900 font-sans selection:bg-indigo-100 selection:text-indigo-900">
+      {/* Header */}
+      <header className="glass-panel sticky top-0 z-50 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto h-20 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-8">
+            <motion.div 
+              whileHover={{ scale: 1.05 }}
+              className="flex items-center gap-2.5 cursor-pointer"
+              onClick={() => setActiveTab("jobs")}
+            >
+              <div className="bg-indigo-600 p-2.5 rounded-2xl shadow-lg shadow-indigo-500/30">
+                <Briefcase className="text-white w-6 h-6" />
+              </div>
+              <h1 className="text-xl font-display font-bold tracking-tight text-slate-900">ANKUR <span className="text-indigo-600">JOBS</span></h1>
+            </motion.div>
+            
+            <nav className="hidden md:flex items-center gap-1 bg-slate-100/50 p-1 rounded-2xl border border-slate-200/50">
+              <button 
+                onClick={() => setActiveTab("jobs")}
+                className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all ${activeTab === "jobs" ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"}`}
+              >
+                Find Jobs
+              </button>
+              <button 
+                onClick={() => setIsProfileModalOpen(true)}
+                className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all text-slate-500 hover:text-slate-700`}
+              >
+                My Profile
+              </button>
+              {token && (
+                <button 
+                  onClick={() => setActiveTab("postings")}
+                  className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all ${activeTab === "postings" ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"}`}
+                >
+                  My Postings
+                </button>
+              )}
+              {token && (
+                <button 
+                  onClick={() => { setActiveTab("directory"); setViewedProfile(null); }}
+                  className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all ${activeTab === "directory" ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"}`}
+                >
+                  Directory
+                </button>
+              )}
+              {token && (
+                <button 
+                  onClick={() => setActiveTab("applications")}
+                  className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all ${activeTab === "applications" ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"}`}
+                >
+                  My Applications
+                </button>
+              )}
+              {can("admin.panel") && (
+                <button 
+                  onClick={() => setActiveTab("admin")}
+                  className={`px-5 py-2 rounded-xl text-sm font-semibold transition-all ${activeTab === "admin" ? "bg-red-50 text-red-600" : "text-slate-500 hover:text-slate-700"}`}
+                >
+                  Admin Panel
+                </button>
+              )}
+            </nav>
+          </div>
+
+          <div className="flex items-center gap-4">
+            {token ? (
+              <div className="flex items-center gap-4">
+                <div className="hidden sm:flex flex-col items-end">
+                  <span className="text-sm font-bold text-slate-900">{user?.username}</span>
+                  <span className="text-[10px] font-medium text-slate-400 uppercase tracking-wider">{user?.role}</span>
+                </div>
+                <div className="relative">
+                  <button 
+                    onClick={() => setIsNotificationsOpen(!isNotificationsOpen)}
+                    className="relative w-10 h-10 rounded-2xl bg-white border border-slate-200 flex items-center justify-center text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+                    title="Notifications"
+                  >
+                    <Bell size={20} />
+                    {unreadCount > 0 && (
+                      <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                        {unreadCount > 9 ? "9+" : unreadCount}
+                      </span>
+                    )}
+                  </button>
+                  <AnimatePresence>
+                    {isNotificationsOpen && (
+                      <motion.div
+                        initial={{ opacity: 0, y: -8 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -8 }}
+                        className="absolute right-0 mt-3 w-80 bg-white rounded-3xl shadow-2xl border border-slate-100 overflow-hidden z-50"
+                      >
+                        <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+                          <span className="text-sm font-bold text-slate-900">Notifications</span>
+                          {unreadCount > 0 && (
+                            <button
+                              onClick={handleMarkAllRead}
+                              className="text-xs font-bold text-indigo-600 hover:text-indigo-700"
+                            >
+                              Mark all read
+                            </button>
+                          )}
+                        </div>
+                        <div className="max-h-96 overflow-y-auto divide-y divide-slate-50">
+                          {notifications.length > 0 ? notifications.map((notification) => (
+                            <button
+                              key={notification.id}
+                              onClick={() => handleNotificationClick(notification)}
+                              className={`w-full text-left px-5 py-3 hover:bg-slate-50 transition-colors ${notification.is_read ? "" : "bg-indigo-50/50"}`}
+                            >
+                              <div className="flex items-start gap-2">
+                                {!notification.is_read && <span className="mt-1.5 w-2 h-2 rounded-full bg-indigo-600 flex-shrink-0" />}
+                                <div className="min-w-0">
+                                  <div className="text-sm font-semibold text-slate-900">{notification.title}</div>
+                                  {notification.body && <div className="text-xs text-slate-500">{notification.body}</div>}
+                                  <div className="text-[10px] text-slate-400 mt-1">{new Date(notification.created_at).toLocaleString()}</div>
+                                </div>
+                              </div>
+                            </button>
+                          )) : (
+                            <div className="px-5 py-10 text-center text-sm text-slate-400">You're all caught up.</div>
+                          )}
+                        </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </div>
+                <button 
+                  onClick={() => setIsProfileModalOpen(true)}
+                  className="w-10 h-10 rounded-2xl bg-indigo-50 border border-indigo-100 flex items-center justify-center text-indigo-600 hover:bg-indigo-100 transition-all"
+                >
+                  <User size={20} />
+                </button>
+                <button 
+                  onClick={handleLogout}
+                  className="p-2.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-2xl transition-all"
+                  title="Logout"
+                >
+                  <LogOut size={20} />
+                </button>
+              </div>
+            ) : (
+              <button 
+                onClick={() => { setAuthMode("login"); setIsAuthModalOpen(true); }}
+                className="btn-primary"
+              >
+                Sign In
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        {user && !user.email_verified && (
+          <div className="mb-8 flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-5 py-4 rounded-2xl bg-amber-50 border border-amber-200 text-amber-800">
+            <div className="flex items-center gap-3 text-sm font-medium">
+              <Mail size={18} className="shrink-0" />
+              Verify your email ({user.email}) to post jobs and apply. Check your inbox for the link.
+            </div>
+            <button
+              onClick={handleResendVerification}
+              className="px-4 py-2 bg-white border border-amber-200 rounded-xl text-sm font-bold hover:bg-amber-100 transition-all shrink-0"
+            >
+              Resend Email
+            </button>
+          </div>
+        )}
+        {activeTab === "admin" && can("admin.panel") ? (
+          <div className="space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h2 className="text-3xl font-bold tracking-tight">Admin Dashboard</h2>
+                <p className="text-gray-500 mt-1">Platform overview and moderation</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button 
+                  onClick={() => setIsSelfResetModalOpen(true)}
+                  className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-sm font-bold hover:bg-indigo-100 transition-all flex items-center gap-2"
+                >
+                  <Lock size={14} />
+                  Change My Password
+                </button>
+                <button 
+                  onClick={openTwoFactorModal}
+                  className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-sm font-bold hover:bg-indigo-100 transition-all flex items-center gap-2"
+                >
+                  <ShieldCheck size={14} />
+                  Two-Factor Auth
+                </button>
+                <button 
+                  onClick={() => { fetchAdminStats(); fetchAdminUsers(); fetchAdminJobs(); }}
+                  className="p-2 hover:bg-gray-100 rounded-xl transition-all"
+                >
+                  <RefreshCw className={`w-5 h-5 text-gray-400 ${isAdminLoading ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+            </div>
+
+            {!!user.must_change_password && (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-5 py-4 rounded-2xl bg-red-50 border border-red-200 text-red-700">
+                <div className="flex items-center gap-3 text-sm font-medium">
+                  <Lock size={18} className="shrink-0" />
+                  Admin tools are locked until you replace the default password.
+                </div>
+                <button
+                  onClick={() => setIsSelfResetModalOpen(true)}
+                  className="px-4 py-2 bg-white border border-red-200 rounded-xl text-sm font-bold hover:bg-red-100 transition-all shrink-0"
+                >
+                  Change Password
+                </button>
+              </div>
+            )}
+
+            {twoFactorStatus?.required && !twoFactorStatus.enabled && (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-5 py-4 rounded-2xl bg-red-50 border border-red-200 text-red-700">
+                <div className="flex items-center gap-3 text-sm font-medium">
+                  <ShieldCheck size={18} className="shrink-0" />
+                  Admin tools are locked until you set up two-factor authentication.
+                </div>
+                <button
+                  onClick={openTwoFactorModal}
+                  className="px-4 py-2 bg-white border border-red-200 rounded-xl text-sm font-bold hover:bg-red-100 transition-all shrink-0"
+                >
+                  Set Up Now
+                </button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="glass-panel p-6 rounded-3xl">
                 <div className="flex items-center gap-4 mb-4">
                   <div className="bg-indigo-50 p-3 rounded-2xl text-indigo-600">
                     <Users size={24} />
                   </div>
-                  <div>
-                    <div className="text-sm font-medium text-slate-500">Total Users</div>
-                    <div className="text-2xl font-bold text-slate-900">{adminStats?.totalUsers || 0}</div>
+                  <div>
+                    <div className="text-sm font-medium text-slate-500">Total Users</div>
+                    <div className="text-2xl font-bold text-slate-900">{adminStats?.totalUsers || 0}</div>
+                  </div>
+                </div>
+              </div>
+              <div className="glass-panel p-6 rounded-3xl">
+                <div className="flex items-center gap-4 mb-4">
+                  <div className="bg-emerald-50 p-3 rounded-2xl text-emerald-600">
+                    <Briefcase size={24} />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium text-slate-500">Total Jobs</div>
+                    <div className="text-2xl font-bold text-slate-900">{adminStats?.totalJobs || 0}</div>
+                  </div>
+                </div>
+              </div>
+              <div className="glass-panel p-6 rounded-3xl">
+                <div className="flex items-center gap-4 mb-4">
+                  <div className="bg-orange-50 p-3 rounded-2xl text-orange-600">
+                    <TrendingUp size={24} />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium text-slate-500">Avg Salary</div>
+                    <div className="text-2xl font-bold text-slate-900">₹{adminStats?.avgSalary || 'N/A'}</div>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-6 border-b border-slate-200">
+              {ADMIN_SUB_TABS.filter(tab => can(tab.permission)).map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setAdminSubTab(tab.id)}
+                  className={`pb-4 px-2 text-sm font-bold transition-all relative ${adminSubTab === tab.id ? "text-indigo-600" : "text-slate-400 hover:text-slate-600"}`}
+                >
+                  {tab.label}
+                  {adminSubTab === tab.id && <motion.div layoutId="adminSubTab" className="absolute bottom-0 left-0 right-0 h-0.5 bg-indigo-600" />}
+                </button>
+              ))}
+            </div>
+
+            {adminSubTab === "users" ? (
+              <div className="glass-panel rounded-3xl overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className="bg-slate-50 border-b border-slate-200">
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">User</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Role</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Joined</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {adminUsers.map((u) => (
+                        <tr key={u.id} className="hover:bg-slate-50/50 transition-colors">
+                          <td className="px-6 py-4">
+                            <div className="flex items-center gap-3">
+                              <div className="w-10 h-10 rounded-2xl bg-indigo-50 flex items-center justify-center text-indigo-600 font-bold border border-indigo-100">
+                                {u.username[0].toUpperCase()}
+                              </div>
+                              <div>
+                                <div className="font-bold text-slate-900">{u.username}</div>
+                                <div className="text-xs text-slate-400">{u.email}</div>
+                              </div>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4">
+                            {can("users.roles") && u.id !== user?.id ? (
+                              <select
+                                value={u.role}
+                                onChange={(e) => handleChangeRole(u.id, e.target.value)}
+                                className={`px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider border-none focus:outline-none cursor-pointer ${ROLE_BADGE_STYLES[u.role] || ROLE_BADGE_STYLES.user}`}
+                              >
+                                {Object.keys(ROLE_BADGE_STYLES).map(role => <option key={role} value={role}>{role}</option>)}
+                              </select>
+                            ) : (
+                              <span className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider ${ROLE_BADGE_STYLES[u.role] || ROLE_BADGE_STYLES.user}`}>
+                                {u.role}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4">
+                            {u.is_suspended ? (
+                              <span className="flex items-center gap-1.5 text-red-500 text-xs font-bold">
+                                <Ban size={14} />
+                                Suspended
+                              </span>
+                            ) : (
+                              <span className="flex items-center gap-1.5 text-emerald-500 text-xs font-bold">
+                                <CheckCircle2 size={14} />
+                                Active
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-slate-500">
+                            {new Date(u.created_at).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            <div className="flex items-center justify-end gap-1">
+                              {can("users.manage") && (
+                                <>
+                                  <button
+                                    onClick={() => handleResetPassword(u.id)}
+                                    className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                                    title="Reset Password"
+                                  >
+                                    <Lock size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleRevokeUserSessions(u.id)}
+                                    className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                                    title="Sign Out Everywhere"
+                                  >
+                                    <LogOut size={16} />
+                                  </button>
+                                  {!!u.totp_enabled && (
+                                    <button
+                                      onClick={() => handleResetUserTwoFactor(u.id)}
+                                      className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                                      title="Reset Two-Factor"
+                                    >
+                                      <KeyRound size={16} />
+                                    </button>
+                                  )}
+                                </>
+                              )}
+                              {u.role !== 'admin' && can("profiles.moderate") && (
+                                <>
+                                  <button
+                                    onClick={() => handleClearSocials(u.id)}
+                                    className="p-2 text-slate-400 hover:text-orange-600 hover:bg-orange-50 rounded-xl transition-all"
+                                    title="Remove Social Links"
+                                  >
+                                    <Link2Off size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleClearProfile(u.id)}
+                                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                                    title="Clear Profile"
+                                  >
+                                    <Eraser size={16} />
+                                  </button>
+                                </>
+                              )}
+                              {u.role !== 'admin' && can("users.manage") && (
+                                <>
+                                  <button
+                                    onClick={() => handleSuspendUser(u.id, u.is_suspended)}
+                                    className={`p-2 rounded-xl transition-all ${u.is_suspended ? 'text-emerald-400 hover:text-emerald-600 hover:bg-emerald-50' : 'text-orange-400 hover:text-orange-600 hover:bg-orange-50'}`}
+                                    title={u.is_suspended ? "Unsuspend" : "Suspend"}
+                                  >
+                                    <Ban size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteUser(u.id)}
+                                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                                    title="Delete User"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ) : adminSubTab === "jobs" ? (
+              <div className="glass-panel rounded-3xl overflow-hidden">
+                <div className="flex items-center gap-2 px-6 py-4 border-b border-slate-200">
+                  {(["all", "live", "archived"] as const).map((filter) => (
+                    <button
+                      key={filter}
+                      onClick={() => setAdminJobsFilter(filter)}
+                      className={`px-4 py-1.5 rounded-xl text-xs font-bold uppercase tracking-wider transition-all ${adminJobsFilter === filter ? "nav-item-active" : "bg-white text-slate-500 border border-slate-200 hover:text-indigo-600"}`}
+                    >
+                      {filter}
+                    </button>
+                  ))}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className="bg-slate-50 border-b border-slate-200">
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Job Title</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Company</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Posted By</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {adminJobs.map((job) => (
+                        <tr key={job.id} className="hover:bg-slate-50/50 transition-colors">
+                          <td className="px-6 py-4">
+                            <div className="font-bold text-slate-900">{job.title}</div>
+                            <div className="text-[10px] font-bold text-indigo-500 uppercase tracking-wider">{job.category}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-slate-600">{job.company}</td>
+                          <td className="px-6 py-4 text-sm text-slate-600">{job.posted_by}</td>
+                          <td className="px-6 py-4">
+                            <span className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider ${job.archived_at ? 'bg-slate-100 text-slate-500' : job.status === 'open' ? 'bg-emerald-50 text-emerald-600' : 'bg-orange-50 text-orange-600'}`}>
+                              {job.archived_at ? "archived" : job.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            <button
+                              onClick={() => handleRemoveJob(job.id)}
+                              className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                              title="Remove Job"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ) : adminSubTab === "trash" ? (
+              <div className="space-y-6">
+                {can("users.manage") && (
+                  <div className="glass-panel rounded-3xl overflow-hidden">
+                    <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                      <div>
+                        <h3 className="font-bold text-slate-900">Deleted Users</h3>
+                        <p className="text-xs text-slate-500 mt-1">Restoring a user also brings back the postings deleted with them</p>
+                      </div>
+                      <button
+                        onClick={fetchTrash}
+                        className="p-2 hover:bg-gray-100 rounded-xl transition-all"
+                      >
+                        <RefreshCw className="w-4 h-4 text-gray-400" />
+                      </button>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-left border-collapse">
+                        <thead>
+                          <tr className="bg-slate-50 border-b border-slate-200">
+                            <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">User</th>
+                            <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Postings</th>
+                            <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Deleted</th>
+                            <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Purged On</th>
+                            <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {trashedUsers.length === 0 && (
+                            <tr>
+                              <td colSpan={5} className="px-6 py-8 text-center text-sm text-slate-400">No deleted users</td>
+                            </tr>
+                          )}
+                          {trashedUsers.map((trashed) => (
+                            <tr key={trashed.id} className="hover:bg-slate-50/50 transition-colors">
+                              <td className="px-6 py-4">
+                                <div className="font-bold text-slate-900">{trashed.username}</div>
+                                <div className="text-xs text-slate-400">{trashed.email}</div>
+                              </td>
+                              <td className="px-6 py-4 text-sm text-slate-600">{trashed.job_count}</td>
+                              <td className="px-6 py-4 text-sm text-slate-500">{new Date(trashed.deleted_at.replace(" ", "T") + "Z").toLocaleString()}</td>
+                              <td className="px-6 py-4 text-sm text-slate-500">{new Date(trashed.purge_at.replace(" ", "T") + "Z").toLocaleString()}</td>
+                              <td className="px-6 py-4 text-right">
+                                <div className="flex justify-end gap-2">
+                                  <button
+                                    onClick={() => handleRestoreFromTrash("users", trashed.id)}
+                                    className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"
+                                    title="Restore"
+                                  >
+                                    <RotateCcw size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handlePurgeFromTrash("users", trashed.id)}
+                                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                                    title="Delete Forever"
+                                  >
+                                    <Trash2 size={16} />
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                <div className="glass-panel rounded-3xl overflow-hidden">
+                  <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                    <div>
+                      <h3 className="font-bold text-slate-900">Deleted Jobs</h3>
+                      <p className="text-xs text-slate-500 mt-1">Items are purged for good once they pass the retention window</p>
+                    </div>
+                    <button
+                      onClick={fetchTrash}
+                      className="p-2 hover:bg-gray-100 rounded-xl transition-all"
+                    >
+                      <RefreshCw className="w-4 h-4 text-gray-400" />
+                    </button>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse">
+                      <thead>
+                        <tr className="bg-slate-50 border-b border-slate-200">
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Job</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Posted By</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Deleted</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Purged On</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {trashedJobs.length === 0 && (
+                          <tr>
+                            <td colSpan={5} className="px-6 py-8 text-center text-sm text-slate-400">No deleted jobs</td>
+                          </tr>
+                        )}
+                        {trashedJobs.map((trashed) => (
+                          <tr key={trashed.id} className="hover:bg-slate-50/50 transition-colors">
+                            <td className="px-6 py-4">
+                              <div className="font-bold text-slate-900">{trashed.title}</div>
+                              <div className="text-xs text-slate-400">{trashed.company}</div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-slate-600">
+                              {trashed.posted_by}
+                              {!!trashed.poster_deleted && <span className="ml-2 text-xs font-bold text-red-500">Deleted</span>}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-slate-500">{new Date(trashed.deleted_at.replace(" ", "T") + "Z").toLocaleString()}</td>
+                            <td className="px-6 py-4 text-sm text-slate-500">{new Date(trashed.purge_at.replace(" ", "T") + "Z").toLocaleString()}</td>
+                            <td className="px-6 py-4 text-right">
+                              <div className="flex justify-end gap-2">
+                                <button
+                                  onClick={() => handleRestoreFromTrash("jobs", trashed.id)}
+                                  disabled={!!trashed.poster_deleted}
+                                  className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                                  title={trashed.poster_deleted ? "Restore the poster's account first" : "Restore"}
+                                >
+                                  <RotateCcw size={16} />
+                                </button>
+                                <button
+                                  onClick={() => handlePurgeFromTrash("jobs", trashed.id)}
+                                  className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                                  title="Delete Forever"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            ) : adminSubTab === "security" ? (
+              <div className="space-y-6">
+                <div className="glass-panel rounded-3xl overflow-hidden">
+                  <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+                    <div>
+                      <h3 className="font-bold text-slate-900">Lockouts & Backoff</h3>
+                      <p className="text-xs text-slate-500 mt-1">Accounts and IPs with recent failed sign-ins</p>
+                    </div>
+                    <button
+                      onClick={fetchLoginSecurity}
+                      className="p-2 hover:bg-gray-100 rounded-xl transition-all"
+                    >
+                      <RefreshCw className="w-4 h-4 text-gray-400" />
+                    </button>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse">
+                      <thead>
+                        <tr className="bg-slate-50 border-b border-slate-200">
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Account / IP</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Failures</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Last Failure</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Status</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {loginLockouts.length === 0 && (
+                          <tr>
+                            <td colSpan={5} className="px-6 py-8 text-center text-sm text-slate-400">No recent failed sign-ins</td>
+                          </tr>
+                        )}
+                        {loginLockouts.map((lockout) => (
+                          <tr key={lockout.id} className="hover:bg-slate-50/50 transition-colors">
+                            <td className="px-6 py-4">
+                              <div className="font-bold text-slate-900">{lockout.label}</div>
+                              <div className="text-xs text-slate-400 uppercase tracking-wider">{lockout.scope}</div>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-slate-600">{lockout.failures}</td>
+                            <td className="px-6 py-4 text-sm text-slate-500">{new Date(lockout.last_failure_at.replace(" ", "T") + "Z").toLocaleString()}</td>
+                            <td className="px-6 py-4">
+                              {lockout.is_locked ? (
+                                <span className="flex items-center gap-1.5 text-red-500 text-xs font-bold">
+                                  <Ban size={14} />
+                                  Locked until {new Date(lockout.locked_until!.replace(" ", "T") + "Z").toLocaleTimeString()}
+                                </span>
+                              ) : (
+                                <span className="text-xs font-bold text-slate-400">Watching</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-right">
+                              <button
+                                onClick={() => handleClearLockout(lockout)}
+                                className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"
+                                title="Clear Lockout"
+                              >
+                                <Eraser size={16} />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                <div className="glass-panel rounded-3xl overflow-hidden">
+                  <div className="px-6 py-4 border-b border-slate-200">
+                    <h3 className="font-bold text-slate-900">Failed Sign-ins</h3>
+                    <p className="text-xs text-slate-500 mt-1">The 100 most recent failures</p>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse">
+                      <thead>
+                        <tr className="bg-slate-50 border-b border-slate-200">
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">When</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Identifier</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Reason</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">IP</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Device</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {loginAttempts.map((attempt) => (
+                          <tr key={attempt.id} className="hover:bg-slate-50/50 transition-colors">
+                            <td className="px-6 py-4 text-sm text-slate-500">{new Date(attempt.created_at.replace(" ", "T") + "Z").toLocaleString()}</td>
+                            <td className="px-6 py-4">
+                              <div className="font-bold text-slate-900">{attempt.identifier}</div>
+                              {attempt.username && attempt.username !== attempt.identifier && (
+                                <div className="text-xs text-slate-400">{attempt.username}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-slate-600">{LOGIN_FAILURE_REASONS[attempt.reason] || attempt.reason}</td>
+                            <td className="px-6 py-4 text-sm text-slate-500 font-mono">{attempt.ip}</td>
+                            <td className="px-6 py-4 text-sm text-slate-500">{describeUserAgent(attempt.user_agent)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            ) : adminSubTab === "audit" ? (
+              <div className="glass-panel rounded-3xl overflow-hidden">
+                <div className="flex flex-wrap items-center gap-3 px-6 py-4 border-b border-slate-200">
+                  <select
+                    className="px-4 py-2.5 rounded-xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm cursor-pointer"
+                    value={auditFilters.action}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, action: e.target.value })}
+                  >
+                    <option value="">All actions</option>
+                    {auditActions.map(action => <option key={action} value={action}>{action}</option>)}
+                  </select>
+                  <select
+                    className="px-4 py-2.5 rounded-xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm cursor-pointer"
+                    value={auditFilters.target_type}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, target_type: e.target.value })}
+                  >
+                    <option value="">All targets</option>
+                    {AUDIT_TARGET_TYPES.map(type => <option key={type} value={type}>{type.replace("_", " ")}</option>)}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Actor username"
+                    className="px-4 py-2.5 rounded-xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm w-40"
+                    value={auditFilters.actor}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, actor: e.target.value })}
+                  />
+                  <input
+                    type="date"
+                    title="From"
+                    className="px-4 py-2.5 rounded-xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                    value={auditFilters.from}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, from: e.target.value })}
+                  />
+                  <input
+                    type="date"
+                    title="To"
+                    className="px-4 py-2.5 rounded-xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                    value={auditFilters.to}
+                    onChange={(e) => setAuditFilters({ ...auditFilters, to: e.target.value })}
+                  />
+                  <button
+                    onClick={handleExportAuditLog}
+                    className="ml-auto px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-sm font-bold hover:bg-indigo-100 transition-all flex items-center gap-2"
+                  >
+                    <Download size={14} />
+                    Export CSV
+                  </button>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className="bg-slate-50 border-b border-slate-200">
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">When</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Actor</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Action</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Target</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Changes</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">IP</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {auditEntries.length === 0 && (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-8 text-center text-sm text-slate-400">No audit entries match these filters.</td>
+                        </tr>
+                      )}
+                      {auditEntries.map((entry) => (
+                        <tr key={entry.id} className="hover:bg-slate-50/50 transition-colors align-top">
+                          <td className="px-6 py-4 text-sm text-slate-500 whitespace-nowrap">{new Date(entry.created_at.replace(" ", "T") + "Z").toLocaleString()}</td>
+                          <td className="px-6 py-4 text-sm font-bold text-slate-900">{entry.actor_username || "—"}</td>
+                          <td className="px-6 py-4">
+                            <span className="px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider bg-indigo-50 text-indigo-600 whitespace-nowrap">{entry.action}</span>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-slate-600">
+                            <div className="font-medium text-slate-900">{entry.target_label || `#${entry.target_id}`}</div>
+                            <div className="text-xs text-slate-400">{entry.target_type.replace("_", " ")}{entry.target_id ? ` #${entry.target_id}` : ""}</div>
+                          </td>
+                          <td className="px-6 py-4 text-xs text-slate-500 max-w-md">
+                            {auditChanges(entry).map(change => (
+                              <div key={change.field} className="break-words">
+                                <span className="font-bold text-slate-700">{change.field}</span>: {change.from === undefined ? "—" : JSON.stringify(change.from)} → {change.to === undefined ? "—" : JSON.stringify(change.to)}
+                              </div>
+                            ))}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-slate-500 font-mono">{entry.ip}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {auditTotalPages > 1 && (
+                  <div className="flex items-center justify-center gap-4 px-6 py-4 border-t border-slate-200">
+                    <button
+                      disabled={auditPage <= 1}
+                      onClick={() => fetchAuditLog(auditPage - 1)}
+                      className="p-2 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-indigo-600 disabled:opacity-40 transition-all"
+                    >
+                      <ChevronLeft size={16} />
+                    </button>
+                    <span className="text-sm font-bold text-slate-500">Page {auditPage} of {auditTotalPages}</span>
+                    <button
+                      disabled={auditPage >= auditTotalPages}
+                      onClick={() => fetchAuditLog(auditPage + 1)}
+                      className="p-2 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-indigo-600 disabled:opacity-40 transition-all"
+                    >
+                      <ChevronRight size={16} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : adminSubTab === "candidates" ? (
+              <div className="space-y-6">
+                <form
+                  onSubmit={(e) => { e.preventDefault(); fetchCandidates(1); }}
+                  className="glass-panel rounded-3xl p-6 flex flex-col md:flex-row gap-3"
+                >
+                  <div className="relative flex-1">
+                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <input
+                      type="text"
+                      placeholder="Skills, experience or name"
+                      className="w-full pl-11 pr-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                      value={candidateFilters.q}
+                      onChange={(e) => setCandidateFilters({ ...candidateFilters, q: e.target.value })}
+                    />
+                  </div>
+                  <div className="relative md:w-64">
+                    <MapPin className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <input
+                      type="text"
+                      placeholder="Location"
+                      className="w-full pl-11 pr-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                      value={candidateFilters.location}
+                      onChange={(e) => setCandidateFilters({ ...candidateFilters, location: e.target.value })}
+                    />
+                  </div>
+                  <button type="submit" className="btn-primary px-6 py-3 rounded-2xl text-sm font-bold">
+                    Search
+                  </button>
+                </form>
+
+                {candidates.length === 0 ? (
+                  <div className="glass-panel rounded-3xl p-12 text-center text-sm text-slate-400">No public profiles match this search.</div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {candidates.map((candidate) => (
+                      <div key={candidate.user_id} className="glass-panel rounded-3xl p-6 space-y-4">
+                        <div className="flex items-center gap-4">
+                          {candidate.photo_url ? (
+                            <img src={candidate.photo_url} alt={candidate.name} className="w-12 h-12 rounded-2xl object-cover" referrerPolicy="no-referrer" />
+                          ) : (
+                            <div className="w-12 h-12 rounded-2xl bg-indigo-50 flex items-center justify-center text-indigo-600 font-bold border border-indigo-100">
+                              {candidate.name[0]?.toUpperCase()}
+                            </div>
+                          )}
+                          <div>
+                            <div className="font-bold text-slate-900">{candidate.name}</div>
+                            <div className="text-xs text-slate-400">@{candidate.username}{candidate.location ? ` · ${candidate.location}` : ""}</div>
+                          </div>
+                        </div>
+                        {candidate.skills.length > 0 && <p className="text-sm text-slate-600"><span className="font-bold text-slate-900">Skills:</span> {candidate.skills.join(", ")}</p>}
+                        {candidate.experiences.length > 0 && <p className="text-sm text-slate-600 line-clamp-3"><span className="font-bold text-slate-900">Experience:</span> {candidate.experiences.map(describeExperience).join("; ")}</p>}
+                        {candidate.education.length > 0 && <p className="text-sm text-slate-600 line-clamp-2"><span className="font-bold text-slate-900">Education:</span> {candidate.education.map(describeEducation).join("; ")}</p>}
+                        <div className="flex items-center justify-between gap-3">
+                          {renderProfileLinks(candidate)}
+                          <button
+                            onClick={() => { setActiveTab("directory"); openPublicProfile(candidate.username); }}
+                            className="text-xs font-bold text-slate-500 hover:text-indigo-600 transition-all whitespace-nowrap"
+                          >
+                            View Profile
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {candidateTotalPages > 1 && (
+                  <div className="flex items-center justify-center gap-4">
+                    <button
+                      disabled={candidatePage <= 1}
+                      onClick={() => fetchCandidates(candidatePage - 1)}
+                      className="p-2 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-indigo-600 disabled:opacity-40 transition-all"
+                    >
+                      <ChevronLeft size={16} />
+                    </button>
+                    <span className="text-sm font-bold text-slate-500">Page {candidatePage} of {candidateTotalPages}</span>
+                    <button
+                      disabled={candidatePage >= candidateTotalPages}
+                      onClick={() => fetchCandidates(candidatePage + 1)}
+                      className="p-2 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-indigo-600 disabled:opacity-40 transition-all"
+                    >
+                      <ChevronRight size={16} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="glass-panel rounded-3xl p-6 space-y-5">
+                  <div>
+                    <h3 className="font-bold text-slate-900">Allowed Email Domains</h3>
+                    <p className="text-xs text-slate-500 mt-1">Anyone with an address on these domains can sign up without an invite.</p>
+                  </div>
+                  <form onSubmit={handleAddDomain} className="flex gap-2">
+                    <input
+                      type="text"
+                      placeholder="example.com"
+                      className="flex-1 min-w-0 px-4 py-2 rounded-xl border border-slate-200 bg-slate-50/50 text-sm focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500"
+                      value={newDomain}
+                      onChange={(e) => setNewDomain(e.target.value)}
+                    />
+                    <button type="submit" className="btn-primary px-4 py-2 text-sm flex items-center gap-1">
+                      <Plus size={14} />
+                      Add
+                    </button>
+                  </form>
+                  <div className="space-y-2">
+                    {allowedDomains.length === 0 ? (
+                      <p className="text-sm text-slate-400">No domains yet. Only invited users can register.</p>
+                    ) : allowedDomains.map((d) => (
+                      <div key={d.id} className="flex items-center justify-between px-4 py-2 rounded-xl bg-slate-50 border border-slate-100">
+                        <span className="text-sm font-semibold text-slate-700">@{d.domain}</span>
+                        <button
+                          onClick={() => handleRemoveDomain(d)}
+                          className="p-1.5 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                          title="Remove Domain"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="glass-panel rounded-3xl overflow-hidden lg:col-span-2">
+                  <form onSubmit={handleCreateInvite} className="flex flex-wrap items-end gap-3 px-6 py-4 border-b border-slate-200">
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Max Uses</label>
+                      <input
+                        type="number"
+                        min="1"
+                        className="w-24 px-3 py-2 rounded-xl border border-slate-200 bg-slate-50/50 text-sm focus:outline-none focus:border-indigo-500"
+                        value={inviteForm.max_uses}
+                        onChange={(e) => setInviteForm({ ...inviteForm, max_uses: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Expires In (days)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        placeholder="Never"
+                        className="w-32 px-3 py-2 rounded-xl border border-slate-200 bg-slate-50/50 text-sm focus:outline-none focus:border-indigo-500"
+                        value={inviteForm.expires_in_days}
+                        onChange={(e) => setInviteForm({ ...inviteForm, expires_in_days: e.target.value })}
+                      />
+                    </div>
+                    <button type="submit" className="btn-primary px-4 py-2 text-sm flex items-center gap-2">
+                      <Ticket size={14} />
+                      Create Invite
+                    </button>
+                  </form>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left border-collapse">
+                      <thead>
+                        <tr className="bg-slate-50 border-b border-slate-200">
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Code</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Uses</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Expires</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Status</th>
+                          <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {invites.length === 0 && (
+                          <tr>
+                            <td colSpan={5} className="px-6 py-8 text-center text-sm text-slate-400">No invites created yet</td>
+                          </tr>
+                        )}
+                        {invites.map((invite) => {
+                          const state = inviteState(invite);
+                          return (
+                            <tr key={invite.id} className="hover:bg-slate-50/50 transition-colors">
+                              <td className="px-6 py-4">
+                                <div className="font-mono font-bold text-slate-900">{invite.code}</div>
+                                <div className="text-xs text-slate-400">by {invite.created_by_username || "deleted user"}</div>
+                              </td>
+                              <td className="px-6 py-4 text-sm text-slate-600">{invite.uses} / {invite.max_uses}</td>
+                              <td className="px-6 py-4 text-sm text-slate-500">
+                                {invite.expires_at ? new Date(invite.expires_at.replace(" ", "T") + "Z").toLocaleDateString() : "Never"}
+                              </td>
+                              <td className="px-6 py-4">
+                                <span className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider ${state === "active" ? "bg-emerald-50 text-emerald-600" : "bg-slate-100 text-slate-500"}`}>
+                                  {state}
+                                </span>
+                              </td>
+                              <td className="px-6 py-4 text-right">
+                                <div className="flex items-center justify-end gap-1">
+                                  <button
+                                    onClick={() => copyInviteLink(invite)}
+                                    disabled={state !== "active"}
+                                    className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all disabled:opacity-30"
+                                    title="Copy Invite Link"
+                                  >
+                                    <Copy size={16} />
+                                  </button>
+                                  <button
+                                    onClick={() => handleRevokeInvite(invite)}
+                                    disabled={!!invite.revoked_at}
+                                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all disabled:opacity-30"
+                                    title="Revoke Invite"
+                                  >
+                                    <Ban size={16} />
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : activeTab === "jobs" ? (
+          <>
+            <section className="mb-16 text-center max-w-3xl mx-auto">
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mb-6"
+              >
+                <span className="inline-block px-4 py-1.5 rounded-full bg-indigo-50 text-indigo-600 text-xs font-bold uppercase tracking-widest mb-4">
+                  Discover Your Future
+                </span>
+                <h2 className="text-5xl font-display font-bold tracking-tight text-slate-900 mb-6 leading-tight">
+                  Find your dream job <br />
+                  <span className="text-indigo-600">without the hassle.</span>
+                </h2>
+                <p className="text-lg text-slate-500 leading-relaxed">
+                  Connect with top companies and explore thousands of job opportunities tailored to your skills and experience.
+                </p>
+              </motion.div>
+
+              <div className="flex flex-col sm:flex-row items-center gap-3 glass-panel p-3 rounded-[2.5rem]">
+                <div className="relative flex-1 w-full">
+                  <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+                  <input
+                    type="text"
+                    placeholder="Job title, company, or keywords..."
+                    className="w-full pl-12 pr-4 py-4 rounded-3xl bg-slate-50/50 border-none focus:ring-2 focus:ring-indigo-500/20 transition-all text-slate-900"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                  />
+                </div>
+                <div className="relative flex-1 w-full">
+                  <MapPin className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+                  <input
+                    type="text"
+                    placeholder="City, state, or remote..."
+                    className="w-full pl-12 pr-4 py-4 rounded-3xl bg-slate-50/50 border-none focus:ring-2 focus:ring-indigo-500/20 transition-all text-slate-900"
+                    value={locationQuery}
+                    onChange={(e) => setLocationQuery(e.target.value)}
+                  />
+                </div>
+                <button className="btn-primary w-full sm:w-auto h-full py-4 px-8 rounded-3xl">
+                  Search Jobs
+                </button>
+              </div>
+            </section>
+
+            {/* Recommended for you */}
+            {token && user && (recommendedJobs.length > 0 || profile.skills.length === 0) && (
+              <section className="mb-12 space-y-6">
+                <div className="flex items-center gap-3">
+                  <div className="p-2.5 rounded-2xl bg-indigo-50 text-indigo-600">
+                    <Sparkles size={18} />
+                  </div>
+                  <div>
+                    <h3 className="text-xl font-display font-bold text-slate-900">Recommended for you</h3>
+                    <p className="text-sm text-slate-500">Open jobs matched to your skills, experience and location</p>
+                  </div>
+                </div>
+                {recommendedJobs.length === 0 ? (
+                  <div className="glass-panel rounded-3xl p-6 flex flex-col sm:flex-row items-center justify-between gap-4">
+                    <p className="text-sm text-slate-500">Add skills to your profile and we'll point out the jobs that fit you best.</p>
+                    <button onClick={() => setIsProfileModalOpen(true)} className="btn-secondary !px-5 !py-2 !text-xs !rounded-xl whitespace-nowrap">
+                      Add Skills
+                    </button>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {recommendedJobs.map((job) => (
+                      <div key={job.id} className="glass-panel p-6 rounded-3xl flex flex-col justify-between gap-5">
+                        <div className="space-y-3">
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="min-w-0">
+                              <h4 className="font-display font-bold text-slate-900 truncate">{job.title}</h4>
+                              <div className="text-sm text-slate-500 truncate">{job.company}{job.location ? ` · ${job.location}` : ""}</div>
+                            </div>
+                            <span className="flex-shrink-0 px-3 py-1.5 rounded-xl bg-emerald-50 text-emerald-600 text-xs font-bold">
+                              {job.match_score}% match
+                            </span>
+                          </div>
+                          <ul className="space-y-1.5">
+                            {job.match_reasons?.map(reason => (
+                              <li key={reason} className="flex items-start gap-2 text-xs text-slate-500">
+                                <CheckCircle2 size={14} className="text-emerald-500 flex-shrink-0 mt-px" />
+                                {reason}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div className="flex items-center justify-end gap-3">
+                          <button
+                            onClick={() => toggleSaveJob(job.id)}
+                            className={`p-2 rounded-xl transition-all ${savedJobIds.includes(job.id) ? "text-indigo-600 bg-indigo-50" : "text-slate-300 hover:text-indigo-600 hover:bg-indigo-50"}`}
+                            title={savedJobIds.includes(job.id) ? "Remove from saved" : "Save job"}
+                          >
+                            {savedJobIds.includes(job.id) ? <BookmarkCheck size={16} /> : <Bookmark size={16} />}
+                          </button>
+                          <a
+                            href={job.link}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                            title="View original posting"
+                          >
+                            <ExternalLink size={16} />
+                          </a>
+                          <button
+                            onClick={() => openApplyModal(job)}
+                            className="btn-primary !px-5 !py-2 !text-xs !rounded-xl"
+                          >
+                            Apply
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* Filters and Sort */}
+            <div className="flex flex-col gap-10 mb-12">
+              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex items-center gap-2 text-slate-400 mr-2">
+                    <Filter size={18} />
+                    <span className="text-sm font-bold uppercase tracking-wider">Category</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {CATEGORIES.map((cat) => (
+                      <button
+                        key={cat}
+                        onClick={() => setSelectedCategory(cat)}
+                        className={`px-5 py-2 rounded-2xl text-sm font-semibold transition-all ${
+                          selectedCategory === cat
+                            ? "nav-item-active"
+                            : "bg-white text-slate-500 border border-slate-200 hover:border-indigo-300 hover:text-indigo-600"
+                        }`}
+                      >
+                        {cat}
+                      </button>
+                    ))}
+                    {token && (
+                      <button
+                        onClick={() => setShowSavedOnly(!showSavedOnly)}
+                        className={`px-5 py-2 rounded-2xl text-sm font-semibold transition-all flex items-center gap-2 ${
+                          showSavedOnly
+                            ? "nav-item-active"
+                            : "bg-white text-slate-500 border border-slate-200 hover:border-indigo-300 hover:text-indigo-600"
+                        }`}
+                      >
+                        <Bookmark size={14} />
+                        Saved
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2 text-slate-400 mr-2">
+                    <ArrowUpDown size={18} />
+                    <span className="text-sm font-bold uppercase tracking-wider">Sort</span>
+                  </div>
+                  <button
+                    onClick={() => setSortOrder(sortOptions[(sortOptions.indexOf(sortOrder) + 1) % sortOptions.length])}
+                    className="flex items-center gap-3 px-5 py-2 rounded-2xl bg-white border border-slate-200 text-sm font-semibold text-slate-600 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+                  >
+                    {SORT_LABELS[sortOrder]}
+                    {sortOrder === "relevance" ? <Sparkles size={16} /> : sortOrder === "newest" ? <ArrowDown size={16} /> : <ArrowUp size={16} />}
+                  </button>
+                  <button 
+                    onClick={() => setIsModalOpen(true)}
+                    className="btn-primary flex items-center gap-2"
+                  >
+                    <Plus size={18} />
+                    Post Job
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center gap-2 text-slate-400 mr-2">
+                  <Award size={18} />
+                  <span className="text-sm font-bold uppercase tracking-wider">Experience</span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {EXPERIENCE_LEVELS.map((exp) => (
+                    <button
+                      key={exp}
+                      onClick={() => setSelectedExperience(exp)}
+                      className={`px-5 py-2 rounded-2xl text-sm font-semibold transition-all ${
+                        selectedExperience === exp
+                          ? "nav-item-active"
+                          : "bg-white text-slate-500 border border-slate-200 hover:border-indigo-300 hover:text-indigo-600"
+                      }`}
+                    >
+                      {exp}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {token && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex items-center gap-2 text-slate-400 mr-2">
+                    <BellRing size={18} />
+                    <span className="text-sm font-bold uppercase tracking-wider">Alerts</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {savedSearches.map((search) => (
+                      <div key={search.id} className="flex items-center gap-2 pl-5 pr-1.5 py-1.5 rounded-2xl bg-white border border-slate-200 hover:border-indigo-300 transition-all">
+                        <button
+                          onClick={() => applySavedSearch(search)}
+                          className="text-sm font-semibold text-slate-500 hover:text-indigo-600"
+                        >
+                          {search.name}
+                        </button>
+                        {search.new_match_count > 0 && (
+                          <span className="px-2 py-0.5 rounded-lg bg-indigo-600 text-white text-[10px] font-bold">
+                            {search.new_match_count} new
+                          </span>
+                        )}
+                        <button
+                          onClick={() => handleDeleteSavedSearch(search.id)}
+                          className="p-1 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                          title="Delete saved search"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={handleSaveSearch}
+                      className="px-5 py-2 rounded-2xl text-sm font-semibold border border-dashed border-indigo-300 text-indigo-600 hover:bg-indigo-50 transition-all flex items-center gap-2"
+                    >
+                      <Plus size={14} />
+                      Save this search
+                    </button>
                   </div>
                 </div>
+              )}
+            </div>
+
+            {/* Job Grid */}
+            {isLoading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {[1, 2, 3, 4, 5, 6].map((i) => (
+                  <div key={i} className="bg-white rounded-3xl p-8 border border-slate-100 animate-pulse h-64" />
+                ))}
               </div>
-              <div className="glass-panel p-6 rounded-3xl">
-                <div className="flex items-center gap-4 mb-4">
-                  <div className="bg-emerald-50 p-3 rounded-2xl text-emerald-600">
-                    <Briefcase size={24} />
-                  </div>
+            ) : totalJobs > 0 ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  <AnimatePresence mode="popLayout">
+                    {jobs.map((job) => (
+                      <motion.div
+                        layout
+                        initial={{ opacity: 0, scale: 0.9 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.9 }}
+                        key={job.id}
+                        className="glass-panel p-8 rounded-4xl job-card-hover group flex flex-col justify-between"
+                      >
+                        <div>
+                          <div className="flex justify-between items-start mb-6">
+                            <span className="bg-indigo-50 text-indigo-600 text-[10px] font-bold uppercase tracking-widest px-3 py-1.5 rounded-xl">
+                              {job.category}
+                            </span>
+                            <div className="flex items-center gap-2">
+                              <span className="text-slate-400 text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5">
+                                <Calendar size={12} />
+                                {new Date(job.created_at).toLocaleDateString()}
+                              </span>
+                              <button
+                                onClick={() => toggleSaveJob(job.id)}
+                                className={`p-1.5 rounded-xl transition-all ${savedJobIds.includes(job.id) ? "text-indigo-600 bg-indigo-50" : "text-slate-300 hover:text-indigo-600 hover:bg-indigo-50"}`}
+                                title={savedJobIds.includes(job.id) ? "Remove from saved" : "Save job"}
+                              >
+                                {savedJobIds.includes(job.id) ? <BookmarkCheck size={16} /> : <Bookmark size={16} />}
+                              </button>
+                            </div>
+                          </div>
+                          
+                          <h3 className="text-xl font-display font-bold text-slate-900 mb-2 group-hover:text-indigo-600 transition-colors">
+                            {job.title_highlight ? renderHighlights(job.title_highlight) : job.title}
+                          </h3>
+                          
+                          <div className="flex items-center gap-2 text-slate-500 font-medium mb-6">
+                            <div className="w-8 h-8 rounded-xl bg-slate-100 flex items-center justify-center text-slate-400">
+                              <Building2 size={16} />
+                            </div>
+                            {job.company}
+                          </div>
+
+                          <div className="flex flex-wrap gap-2 mb-6">
+                            {job.location && (
+                              <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-50 text-slate-500 text-[10px] font-bold uppercase tracking-wider border border-slate-100">
+                                <MapPin size={12} />
+                                {job.location}
+                              </div>
+                            )}
+                            {job.experience && (
+                              <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-50 text-slate-500 text-[10px] font-bold uppercase tracking-wider border border-slate-100">
+                                <Award size={12} />
+                                {job.experience}
+                              </div>
+                            )}
+                            {job.salary && (
+                              <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-emerald-50 text-emerald-600 text-[10px] font-bold uppercase tracking-wider border border-emerald-100">
+                                <DollarSign size={12} />
+                                {job.salary}
+                              </div>
+                            )}
+                          </div>
+
+                          {job.requirements && (
+                            <p className="text-sm text-slate-500 line-clamp-2 mb-8 italic leading-relaxed">
+                              "{job.snippet ? renderHighlights(job.snippet) : job.requirements}"
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="pt-6 border-t border-slate-100 flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <div className="w-6 h-6 rounded-lg bg-indigo-50 flex items-center justify-center text-indigo-600">
+                              <User size={12} />
+                            </div>
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{job.posted_by}</span>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            {can("jobs.moderate") && (
+                              <button
+                                onClick={() => handleRemoveJob(job.id)}
+                                className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            )}
+                            <a
+                              href={job.link}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="p-2 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                              title="View original posting"
+                            >
+                              <ExternalLink size={16} />
+                            </a>
+                            {user && job.user_id === user.id ? (
+                              <button
+                                onClick={() => openApplicants(job)}
+                                className="btn-secondary !px-5 !py-2 !text-xs !rounded-xl"
+                              >
+                                Applicants
+                              </button>
+                            ) : myApplications.some(a => a.job_id === job.id) ? (
+                              <span className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-emerald-50 text-emerald-600 text-xs font-bold">
+                                <CheckCircle2 size={14} />
+                                Applied
+                              </span>
+                            ) : (
+                              <button
+                                onClick={() => openApplyModal(job)}
+                                className="btn-primary !px-5 !py-2 !text-xs !rounded-xl"
+                              >
+                                Apply Now
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      </motion.div>
+                    ))}
+                  </AnimatePresence>
+                </div>
+
+            {/* Pagination Controls */}
+            {totalPages > 1 && (
+              <div className="mt-12 flex items-center justify-center gap-2">
+                <button
+                  onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                  disabled={currentPage === 1}
+                  className="p-2 rounded-xl border border-black/5 bg-white text-gray-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  <ChevronLeft size={20} />
+                </button>
+                
+                <div className="flex items-center gap-1">
+                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+                    <button
+                      key={page}
+                      onClick={() => setCurrentPage(page)}
+                      className={`w-10 h-10 rounded-xl text-sm font-semibold transition-all ${
+                        currentPage === page
+                          ? "bg-indigo-600 text-white shadow-lg shadow-indigo-500/20"
+                          : "bg-white text-gray-600 border border-black/5 hover:bg-gray-50"
+                      }`}
+                    >
+                      {page}
+                    </button>
+                  ))}
+                </div>
+
+                <button
+                  onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={currentPage === totalPages}
+                  className="p-2 rounded-xl border border-black/5 bg-white text-gray-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  <ChevronRight size={20} />
+                </button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-gray-300">
+            <Briefcase className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900">No jobs found</h3>
+            <p className="text-gray-500">{showSavedOnly ? "Bookmark a job to add it to your saved list." : "Be the first to post a job opening!"}</p>
+          </div>
+        )}
+          </>
+        ) : null}
+        {activeTab === "profile" && <div className="text-center py-20 text-gray-400">Profile content is managed via the profile modal.</div>}
+        {activeTab === "directory" && token && (
+          viewedProfile ? (
+            <div className="max-w-3xl mx-auto space-y-6">
+              <button
+                onClick={() => setViewedProfile(null)}
+                className="flex items-center gap-1 text-sm font-bold text-slate-500 hover:text-indigo-600 transition-all"
+              >
+                <ChevronLeft size={16} />
+                Back to directory
+              </button>
+              <div className="glass-panel rounded-3xl p-8 space-y-6">
+                <div className="flex items-center gap-5">
+                  {viewedProfile.photo_url ? (
+                    <img src={viewedProfile.photo_url} alt={viewedProfile.name} className="w-20 h-20 rounded-3xl object-cover" referrerPolicy="no-referrer" />
+                  ) : (
+                    <div className="w-20 h-20 rounded-3xl bg-indigo-50 flex items-center justify-center text-indigo-600 text-2xl font-bold border border-indigo-100">
+                      {viewedProfile.name[0]?.toUpperCase()}
+                    </div>
+                  )}
                   <div>
-                    <div className="text-sm font-medium text-slate-500">Total Jobs</div>
-                    <div className="text-2xl font-bold text-slate-900">{adminStats?.totalJobs || 0}</div>
+                    <h2 className="text-2xl font-bold tracking-tight text-slate-900">{viewedProfile.name}</h2>
+                    <p className="text-sm text-slate-400">@{viewedProfile.username}</p>
+                    <div className="flex flex-wrap items-center gap-4 mt-2 text-xs font-semibold text-slate-500">
+                      {viewedProfile.location && <span className="flex items-center gap-1"><MapPin size={12} /> {viewedProfile.location}</span>}
+                      <span className="flex items-center gap-1"><Calendar size={12} /> Member since {new Date(viewedProfile.created_at.replace(" ", "T") + "Z").toLocaleDateString()}</span>
+                    </div>
                   </div>
                 </div>
+                {!viewedProfile.is_public && (
+                  <div className="flex items-center gap-2 px-4 py-3 rounded-2xl bg-amber-50 text-amber-700 text-sm font-semibold">
+                    <EyeOff size={16} />
+                    Your profile is hidden. Only you can see this page.
+                  </div>
+                )}
+                {viewedProfile.skills.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Skills</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {viewedProfile.skills.map(skill => (
+                        <span key={skill} className="px-3 py-1 rounded-xl bg-indigo-50 text-indigo-600 text-xs font-bold">{skill}</span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {viewedProfile.experiences.length > 0 && (
+                  <div className="space-y-3">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Experience</h3>
+                    {viewedProfile.experiences.map(experience => (
+                      <div key={experience.id} className="border-l-2 border-indigo-100 pl-4 space-y-1">
+                        <div className="font-bold text-slate-900">{experience.title}</div>
+                        <div className="text-xs font-semibold text-slate-500">{[experience.company, formatEntryDates(experience)].filter(Boolean).join(" · ")}</div>
+                        {experience.description && <p className="text-sm text-slate-600 whitespace-pre-line">{experience.description}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {viewedProfile.education.length > 0 && (
+                  <div className="space-y-3">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Education</h3>
+                    {viewedProfile.education.map(education => (
+                      <div key={education.id} className="border-l-2 border-indigo-100 pl-4 space-y-1">
+                        <div className="font-bold text-slate-900">{education.institution}</div>
+                        <div className="text-xs font-semibold text-slate-500">{[education.degree, education.field_of_study, formatEntryDates(education)].filter(Boolean).join(" · ")}</div>
+                        {education.description && <p className="text-sm text-slate-600 whitespace-pre-line">{education.description}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {viewedProfile.contact_details && (
+                  <div className="space-y-2">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Contact</h3>
+                    <p className="text-sm text-slate-600 flex items-center gap-2"><Phone size={14} /> {viewedProfile.contact_details}</p>
+                  </div>
+                )}
+                {renderProfileLinks(viewedProfile)}
               </div>
-              <div className="glass-panel p-6 rounded-3xl">
-                <div className="flex items-center gap-4 mb-4">
-                  <div className="bg-orange-50 p-3 rounded-2xl text-orange-600">
-                    <TrendingUp size={24} />
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <div>
+                <h2 className="text-3xl font-bold tracking-tight">Candidate Directory</h2>
+                <p className="text-gray-500 mt-1">People who have made their profile public</p>
+              </div>
+
+              <form
+                onSubmit={(e) => { e.preventDefault(); fetchDirectory(1); }}
+                className="glass-panel rounded-3xl p-6 grid grid-cols-1 md:grid-cols-4 gap-3"
+              >
+                  <div className="relative">
+                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <input
+                      type="text"
+                      placeholder="Name or keywords"
+                      className="w-full pl-11 pr-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                      value={directoryFilters.q}
+                      onChange={(e) => setDirectoryFilters({ ...directoryFilters, q: e.target.value })}
+                    />
                   </div>
-                  <div>
-                    <div className="text-sm font-medium text-slate-500">Avg Salary</div>
-                    <div className="text-2xl font-bold text-slate-900">₹{adminStats?.avgSalary || 'N/A'}</div>
+                  <div className="relative">
+                    <Sparkles className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <input
+                      type="text"
+                      placeholder="Skills, comma separated"
+                      className="w-full pl-11 pr-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                      value={directoryFilters.skills}
+                      onChange={(e) => setDirectoryFilters({ ...directoryFilters, skills: e.target.value })}
+                    />
                   </div>
+                  <div className="relative">
+                    <MapPin className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <input
+                      type="text"
+                      placeholder="Location"
+                      className="w-full pl-11 pr-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                      value={directoryFilters.location}
+                      onChange={(e) => setDirectoryFilters({ ...directoryFilters, location: e.target.value })}
+                    />
+                  </div>
+                <div className="flex gap-3">
+                  <div className="relative flex-1">
+                    <Award className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <input
+                      type="text"
+                      placeholder="Experience"
+                      className="w-full pl-11 pr-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-sm"
+                      value={directoryFilters.experience}
+                      onChange={(e) => setDirectoryFilters({ ...directoryFilters, experience: e.target.value })}
+                    />
+                  </div>
+                  <button type="submit" className="btn-primary px-6 py-3 rounded-2xl text-sm font-bold">
+                    Search
+                  </button>
+                </div>
+              </form>
+
+              {directoryProfiles.length === 0 ? (
+                <div className="glass-panel rounded-3xl p-12 text-center text-sm text-slate-400">No public profiles match this search.</div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {directoryProfiles.map((candidate) => (
+                    <div
+                      key={candidate.user_id}
+                      onClick={() => openPublicProfile(candidate.username)}
+                      className="glass-panel rounded-3xl p-6 space-y-4 cursor-pointer hover:border-indigo-200 transition-all"
+                    >
+                      <div className="flex items-center gap-4">
+                        {candidate.photo_url ? (
+                          <img src={candidate.photo_url} alt={candidate.name} className="w-12 h-12 rounded-2xl object-cover" referrerPolicy="no-referrer" />
+                        ) : (
+                          <div className="w-12 h-12 rounded-2xl bg-indigo-50 flex items-center justify-center text-indigo-600 font-bold border border-indigo-100">
+                            {candidate.name[0]?.toUpperCase()}
+                          </div>
+                        )}
+                        <div>
+                          <div className="font-bold text-slate-900">{candidate.name}</div>
+                          <div className="text-xs text-slate-400">@{candidate.username}{candidate.location ? ` · ${candidate.location}` : ""}</div>
+                        </div>
+                      </div>
+                      {candidate.experiences.length > 0 && <p className="text-sm font-semibold text-slate-700">{describeExperience(candidate.experiences[0])}</p>}
+                      {candidate.skills.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                          {candidate.skills.slice(0, 8).map(skill => (
+                            <span key={skill} className="px-2.5 py-1 rounded-lg bg-indigo-50 text-indigo-600 text-[11px] font-bold">{skill}</span>
+                          ))}
+                          {candidate.skills.length > 8 && <span className="px-2.5 py-1 text-[11px] font-bold text-slate-400">+{candidate.skills.length - 8} more</span>}
+                        </div>
+                      )}
+                    </div>
+                  ))}
                 </div>
-              </div>
-            </div>
+              )}
 
-            <div className="flex items-center gap-6 border-b border-slate-200">
-              <button
-                onClick={() => setAdminSubTab("users")}
-                className={`pb-4 px-2 text-sm font-bold transition-all relative ${adminSubTab === "users" ? "text-indigo-600" : "text-slate-400 hover:text-slate-600"}`}
-              >
-                Users Management
-                {adminSubTab === "users" && <motion.div layoutId="adminSubTab" className="absolute bottom-0 left-0 right-0 h-0.5 bg-indigo-600" />}
-              </button>
-              <button
-                onClick={() => setAdminSubTab("jobs")}
-                className={`pb-4 px-2 text-sm font-bold transition-all relative ${adminSubTab === "jobs" ? "text-indigo-600" : "text-slate-400 hover:text-slate-600"}`}
+              {directoryTotalPages > 1 && (
+                <div className="flex items-center justify-center gap-4">
+                  <button
+                    disabled={directoryPage <= 1}
+                    onClick={() => fetchDirectory(directoryPage - 1)}
+                    className="p-2 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-indigo-600 disabled:opacity-40 transition-all"
+                  >
+                    <ChevronLeft size={16} />
+                  </button>
+                  <span className="text-sm font-bold text-slate-500">Page {directoryPage} of {directoryTotalPages}</span>
+                  <button
+                    disabled={directoryPage >= directoryTotalPages}
+                    onClick={() => fetchDirectory(directoryPage + 1)}
+                    className="p-2 rounded-xl border border-slate-200 bg-white text-slate-500 hover:text-indigo-600 disabled:opacity-40 transition-all"
+                  >
+                    <ChevronRight size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          )
+        )}
+        {activeTab === "postings" && token && (
+          <div className="space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h2 className="text-3xl font-bold tracking-tight">My Postings</h2>
+                <p className="text-gray-500 mt-1">Edit, close or remove the openings you shared</p>
+              </div>
+              <button 
+                onClick={() => { resetJobForm(); setIsModalOpen(true); }}
+                className="btn-primary flex items-center gap-2"
               >
-                Jobs Moderation
-                {adminSubTab === "jobs" && <motion.div layoutId="adminSubTab" className="absolute bottom-0 left-0 right-0 h-0.5 bg-indigo-600" />}
+                <Plus size={18} />
+                Post Job
               </button>
             </div>
 
-            {adminSubTab === "users" ? (
+            {myPostings.length > 0 ? (
               <div className="glass-panel rounded-3xl overflow-hidden">
                 <div className="overflow-x-auto">
                   <table className="w-full text-left border-collapse">
                     <thead>
                       <tr className="bg-slate-50 border-b border-slate-200">
-                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">User</th>
-                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Role</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Job Title</th>
                         <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Status</th>
-                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Joined</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Applicants</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Expires</th>
                         <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
-                      {adminUsers.map((u) => (
-                        <tr key={u.id} className="hover:bg-slate-50/50 transition-colors">
+                      {myPostings.map((job) => (
+                        <tr key={job.id} className="hover:bg-slate-50/50 transition-colors">
                           <td className="px-6 py-4">
-                            <div className="flex items-center gap-3">
-                              <div className="w-10 h-10 rounded-2xl bg-indigo-50 flex items-center justify-center text-indigo-600 font-bold border border-indigo-100">
-                                {u.username[0].toUpperCase()}
-                              </div>
-                              <div>
-                                <div className="font-bold text-slate-900">{u.username}</div>
-                                <div className="text-xs text-slate-400">{u.email}</div>
-                              </div>
-                            </div>
+                            <div className="font-bold text-slate-900">{job.title}</div>
+                            <div className="text-xs text-slate-400">{job.company}</div>
                           </td>
                           <td className="px-6 py-4">
-                            <span className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider ${u.role === 'admin' ? 'bg-red-50 text-red-600' : 'bg-blue-50 text-blue-600'}`}>
-                              {u.role}
-                            </span>
+                            <select
+                              className="px-3 py-1.5 rounded-xl border border-slate-200 bg-white text-xs font-bold uppercase tracking-wider text-slate-600 cursor-pointer"
+                              value={job.status}
+                              onChange={(e) => handleJobStatusChange(job, e.target.value)}
+                            >
+                              {JOB_STATUSES.map((status) => (
+                                <option key={status} value={status}>{status}</option>
+                              ))}
+                            </select>
                           </td>
                           <td className="px-6 py-4">
-                            {u.is_suspended ? (
-                              <span className="flex items-center gap-1.5 text-red-500 text-xs font-bold">
-                                <Ban size={14} />
-                                Suspended
-                              </span>
-                            ) : (
-                              <span className="flex items-center gap-1.5 text-emerald-500 text-xs font-bold">
-                                <CheckCircle2 size={14} />
-                                Active
-                              </span>
-                            )}
+                            <button
+                              onClick={() => openApplicants(job)}
+                              className="flex items-center gap-1.5 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+                            >
+                              <Users size={14} />
+                              {job.application_count || 0}
+                            </button>
                           </td>
                           <td className="px-6 py-4 text-sm text-slate-500">
-                            {new Date(u.created_at).toLocaleDateString()}
+                            {job.archived_at ? (
+                              <span className="px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider bg-slate-100 text-slate-500">
+                                Archived
+                              </span>
+                            ) : job.expires_at ? new Date(job.expires_at).toLocaleDateString() : "Never"}
                           </td>
                           <td className="px-6 py-4 text-right">
                             <div className="flex items-center justify-end gap-1">
                               <button
-                                onClick={() => handleResetPassword(u.id)}
+                                onClick={() => handleRenewJob(job.id)}
+                                className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all"
+                                title="Renew Posting"
+                              >
+                                <RefreshCw size={16} />
+                              </button>
+                              <button
+                                onClick={() => openEditJob(job)}
                                 className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
-                                title="Reset Password"
+                                title="Edit Job"
                               >
-                                <Lock size={16} />
+                                <FileText size={16} />
                               </button>
-                              {u.role !== 'admin' && (
-                                <>
-                                  <button
-                                    onClick={() => handleClearSocials(u.id)}
-                                    className="p-2 text-slate-400 hover:text-orange-600 hover:bg-orange-50 rounded-xl transition-all"
-                                    title="Remove Social Links"
-                                  >
-                                    <Link2Off size={16} />
-                                  </button>
-                                  <button
-                                    onClick={() => handleClearProfile(u.id)}
-                                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
-                                    title="Clear Profile"
-                                  >
-                                    <Eraser size={16} />
-                                  </button>
-                                  <button
-                                    onClick={() => handleSuspendUser(u.id, u.is_suspended)}
-                                    className={`p-2 rounded-xl transition-all ${u.is_suspended ? 'text-emerald-400 hover:text-emerald-600 hover:bg-emerald-50' : 'text-orange-400 hover:text-orange-600 hover:bg-orange-50'}`}
-                                    title={u.is_suspended ? "Unsuspend" : "Suspend"}
-                                  >
-                                    <Ban size={16} />
-                                  </button>
-                                  <button
-                                    onClick={() => handleDeleteUser(u.id)}
-                                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
-                                    title="Delete User"
-                                  >
-                                    <Trash2 size={16} />
-                                  </button>
-                                </>
-                              )}
-                            </div>
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              </div>
-            ) : (
-              <div className="glass-panel rounded-3xl overflow-hidden">
-                <div className="overflow-x-auto">
-                  <table className="w-full text-left border-collapse">
-                    <thead>
-                      <tr className="bg-slate-50 border-b border-slate-200">
-                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Job Title</th>
-                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Company</th>
-                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Posted By</th>
-                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-100">
-                      {jobs.map((job) => (
-                        <tr key={job.id} className="hover:bg-slate-50/50 transition-colors">
-                          <td className="px-6 py-4">
-                            <div className="font-bold text-slate-900">{job.title}</div>
-                            <div className="text-[10px] font-bold text-indigo-500 uppercase tracking-wider">{job.category}</div>
-                          </td>
-                          <td className="px-6 py-4 text-sm text-slate-600">{job.company}</td>
-                          <td className="px-6 py-4 text-sm text-slate-600">{job.posted_by}</td>
-                          <td className="px-6 py-4 text-right">
-                            <button
-                              onClick={() => handleRemoveJob(job.id)}
-                              className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
-                              title="Remove Job"
-                            >
-                              <Trash2 size={16} />
-                            </button>
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              </div>
-            )}
-          </div>
-        ) : activeTab === "jobs" ? (
-          <>
-            <section className="mb-16 text-center max-w-3xl mx-auto">
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="mb-6"
-              >
-                <span className="inline-block px-4 py-1.5 rounded-full bg-indigo-50 text-indigo-600 text-xs font-bold uppercase tracking-widest mb-4">
-                  Discover Your Future
-                </span>
-                <h2 className="text-5xl font-display font-bold tracking-tight text-slate-900 mb-6 leading-tight">
-                  Find your dream job <br />
-                  <span className="text-indigo-600">without the hassle.</span>
-                </h2>
-                <p className="text-lg text-slate-500 leading-relaxed">
-                  Connect with top companies and explore thousands of job opportunities tailored to your skills and experience.
-                </p>
-              </motion.div>
-
-              <div className="flex flex-col sm:flex-row items-center gap-3 glass-panel p-3 rounded-[2.5rem]">
-                <div className="relative flex-1 w-full">
-                  <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
-                  <input
-                    type="text"
-                    placeholder="Job title, company, or keywords..."
-                    className="w-full pl-12 pr-4 py-4 rounded-3xl bg-slate-50/50 border-none focus:ring-2 focus:ring-indigo-500/20 transition-all text-slate-900"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                  />
-                </div>
-                <div className="relative flex-1 w-full">
-                  <MapPin className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
-                  <input
-                    type="text"
-                    placeholder="City, state, or remote..."
-                    className="w-full pl-12 pr-4 py-4 rounded-3xl bg-slate-50/50 border-none focus:ring-2 focus:ring-indigo-500/20 transition-all text-slate-900"
-                    value={locationQuery}
-                    onChange={(e) => setLocationQuery(e.target.value)}
-                  />
-                </div>
-                <button className="btn-primary w-full sm:w-auto h-full py-4 px-8 rounded-3xl">
-                  Search Jobs
-                </button>
-              </div>
-            </section>
-
-            {/* Filters and Sort */}
-            <div className="flex flex-col gap-10 mb-12">
-              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
-                <div className="flex flex-wrap items-center gap-3">
-                  <div className="flex items-center gap-2 text-slate-400 mr-2">
-                    <Filter size={18} />
-                    <span className="text-sm font-bold uppercase tracking-wider">Category</span>
-                  </div>
-                  <div className="flex flex-wrap gap-2">
-                    {CATEGORIES.map((cat) => (
-                      <button
-                        key={cat}
-                        onClick={() => setSelectedCategory(cat)}
-                        className={`px-5 py-2 rounded-2xl text-sm font-semibold transition-all ${
-                          selectedCategory === cat
-                            ? "nav-item-active"
-                            : "bg-white text-slate-500 border border-slate-200 hover:border-indigo-300 hover:text-indigo-600"
-                        }`}
-                      >
-                        {cat}
-                      </button>
-                    ))}
-                  </div>
-                </div>
-
-                <div className="flex items-center gap-3">
-                  <div className="flex items-center gap-2 text-slate-400 mr-2">
-                    <ArrowUpDown size={18} />
-                    <span className="text-sm font-bold uppercase tracking-wider">Sort</span>
-                  </div>
-                  <button
-                    onClick={() => setSortOrder(sortOrder === "newest" ? "oldest" : "newest")}
-                    className="flex items-center gap-3 px-5 py-2 rounded-2xl bg-white border border-slate-200 text-sm font-semibold text-slate-600 hover:border-indigo-300 hover:text-indigo-600 transition-all"
-                  >
-                    {sortOrder === "newest" ? "Newest First" : "Oldest First"}
-                    {sortOrder === "newest" ? <ArrowDown size={16} /> : <ArrowUp size={16} />}
-                  </button>
-                  <button 
-                    onClick={() => setIsModalOpen(true)}
-                    className="btn-primary flex items-center gap-2"
-                  >
-                    <Plus size={18} />
-                    Post Job
-                  </button>
-                </div>
-              </div>
-
-              <div className="flex flex-wrap items-center gap-3">
-                <div className="flex items-center gap-2 text-slate-400 mr-2">
-                  <Award size={18} />
-                  <span className="text-sm font-bold uppercase tracking-wider">Experience</span>
-                </div>
-                <div className="flex flex-wrap gap-2">
-                  {EXPERIENCE_LEVELS.map((exp) => (
-                    <button
-                      key={exp}
-                      onClick={() => setSelectedExperience(exp)}
-                      className={`px-5 py-2 rounded-2xl text-sm font-semibold transition-all ${
-                        selectedExperience === exp
-                          ? "nav-item-active"
-                          : "bg-white text-slate-500 border border-slate-200 hover:border-indigo-300 hover:text-indigo-600"
-                      }`}
-                    >
-                      {exp}
-                    </button>
-                  ))}
+                              <button
+                                onClick={() => handleDeleteJob(job.id)}
+                                className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                                title="Delete Job"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
               </div>
+            ) : (
+              <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-gray-300">
+                <Briefcase className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900">No postings yet</h3>
+                <p className="text-gray-500">Share an opening from your company to see it here.</p>
+              </div>
+            )}
+          </div>
+        )}
+        {activeTab === "applications" && token && (
+          <div className="space-y-8">
+            <div>
+              <h2 className="text-3xl font-bold tracking-tight">My Applications</h2>
+              <p className="text-gray-500 mt-1">Track the jobs you have applied to</p>
             </div>
 
-            {/* Job Grid */}
-            {isLoading ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                {[1, 2, 3, 4, 5, 6].map((i) => (
-                  <div key={i} className="bg-white rounded-3xl p-8 border border-slate-100 animate-pulse h-64" />
-                ))}
-              </div>
-            ) : filteredJobs.length > 0 ? (
-              <>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                  <AnimatePresence mode="popLayout">
-                    {paginatedJobs.map((job) => (
-                      <motion.div
-                        layout
-                        initial={{ opacity: 0, scale: 0.9 }}
-                        animate={{ opacity: 1, scale: 1 }}
-                        exit={{ opacity: 0, scale: 0.9 }}
-                        key={job.id}
-                        className="glass-panel p-8 rounded-4xl job-card-hover group flex flex-col justify-between"
-                      >
-                        <div>
-                          <div className="flex justify-between items-start mb-6">
-                            <span className="bg-indigo-50 text-indigo-600 text-[10px] font-bold uppercase tracking-widest px-3 py-1.5 rounded-xl">
-                              {job.category}
-                            </span>
-                            <span className="text-slate-400 text-[10px] font-bold uppercase tracking-widest flex items-center gap-1.5">
-                              <Calendar size={12} />
-                              {new Date(job.created_at).toLocaleDateString()}
+            {myApplications.length > 0 ? (
+              <div className="glass-panel rounded-3xl overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left border-collapse">
+                    <thead>
+                      <tr className="bg-slate-50 border-b border-slate-200">
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Job</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Applied</th>
+                        <th className="px-6 py-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {myApplications.map((application) => (
+                        <tr key={application.id} className="hover:bg-slate-50/50 transition-colors">
+                          <td className="px-6 py-4">
+                            <div className="font-bold text-slate-900">{application.title}</div>
+                            <div className="text-xs text-slate-400">{application.company}{application.location ? ` · ${application.location}` : ""}</div>
+                          </td>
+                          <td className="px-6 py-4">
+                            <span className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider ${APPLICATION_STATUS_STYLES[application.status]}`}>
+                              {application.status}
                             </span>
-                          </div>
-                          
-                          <h3 className="text-xl font-display font-bold text-slate-900 mb-2 group-hover:text-indigo-600 transition-colors">
-                            {job.title}
-                          </h3>
-                          
-                          <div className="flex items-center gap-2 text-slate-500 font-medium mb-6">
-                            <div className="w-8 h-8 rounded-xl bg-slate-100 flex items-center justify-center text-slate-400">
-                              <Building2 size={16} />
-                            </div>
-                            {job.company}
-                          </div>
-
-                          <div className="flex flex-wrap gap-2 mb-6">
-                            {job.location && (
-                              <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-50 text-slate-500 text-[10px] font-bold uppercase tracking-wider border border-slate-100">
-                                <MapPin size={12} />
-                                {job.location}
-                              </div>
-                            )}
-                            {job.experience && (
-                              <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-slate-50 text-slate-500 text-[10px] font-bold uppercase tracking-wider border border-slate-100">
-                                <Award size={12} />
-                                {job.experience}
-                              </div>
-                            )}
-                            {job.salary && (
-                              <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-emerald-50 text-emerald-600 text-[10px] font-bold uppercase tracking-wider border border-emerald-100">
-                                <DollarSign size={12} />
-                                {job.salary}
+                            {applicationHistory[application.id] && (
+                              <div className="mt-3 space-y-1">
+                                {applicationHistory[application.id].map((entry) => (
+                                  <div key={entry.id} className="text-[11px] text-slate-500">
+                                    <span className="font-bold text-slate-700">{entry.to_status}</span>
+                                    {" · "}{new Date(entry.created_at).toLocaleString()}
+                                  </div>
+                                ))}
                               </div>
                             )}
-                          </div>
-
-                          {job.requirements && (
-                            <p className="text-sm text-slate-500 line-clamp-2 mb-8 italic leading-relaxed">
-                              "{job.requirements}"
-                            </p>
-                          )}
-                        </div>
-
-                        <div className="pt-6 border-t border-slate-100 flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <div className="w-6 h-6 rounded-lg bg-indigo-50 flex items-center justify-center text-indigo-600">
-                              <User size={12} />
-                            </div>
-                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{job.posted_by}</span>
-                          </div>
-                          <div className="flex items-center gap-3">
-                            {user?.role === 'admin' && (
+                          </td>
+                          <td className="px-6 py-4 text-sm text-slate-500">
+                            {new Date(application.created_at).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            <div className="flex items-center justify-end gap-1">
                               <button
-                                onClick={() => handleRemoveJob(job.id)}
-                                className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all"
+                                onClick={() => toggleApplicationHistory(application.id)}
+                                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                                title="Status history"
                               >
-                                <Trash2 size={16} />
+                                <Calendar size={16} />
                               </button>
-                            )}
-                            <a
-                              href={job.link}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="btn-primary !px-5 !py-2 !text-xs !rounded-xl"
-                            >
-                              Apply Now
-                            </a>
-                          </div>
-                        </div>
-                      </motion.div>
-                    ))}
-                  </AnimatePresence>
-                </div>
-
-            {/* Pagination Controls */}
-            {totalPages > 1 && (
-              <div className="mt-12 flex items-center justify-center gap-2">
-                <button
-                  onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                  disabled={currentPage === 1}
-                  className="p-2 rounded-xl border border-black/5 bg-white text-gray-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                >
-                  <ChevronLeft size={20} />
-                </button>
-                
-                <div className="flex items-center gap-1">
-                  {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                    <button
-                      key={page}
-                      onClick={() => setCurrentPage(page)}
-                      className={`w-10 h-10 rounded-xl text-sm font-semibold transition-all ${
-                        currentPage === page
-                          ? "bg-indigo-600 text-white shadow-lg shadow-indigo-500/20"
-                          : "bg-white text-gray-600 border border-black/5 hover:bg-gray-50"
-                      }`}
-                    >
-                      {page}
-                    </button>
-                  ))}
+                              <a
+                                href={application.resume_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                                title="View submitted resume"
+                              >
+                                <FileText size={16} />
+                              </a>
+                              {application.next_statuses.includes("withdrawn") && (
+                                <button
+                                  onClick={() => handleApplicationStatus(application.id, "withdrawn", true)}
+                                  className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                                  title="Withdraw application"
+                                >
+                                  <X size={16} />
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
-
-                <button
-                  onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
-                  disabled={currentPage === totalPages}
-                  className="p-2 rounded-xl border border-black/5 bg-white text-gray-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                >
-                  <ChevronRight size={20} />
-                </button>
+              </div>
+            ) : (
+              <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-gray-300">
+                <FileText className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900">No applications yet</h3>
+                <p className="text-gray-500">Apply to a job to see it here.</p>
               </div>
             )}
-          </>
-        ) : (
-          <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-gray-300">
-            <Briefcase className="w-12 h-12 text-gray-300 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900">No jobs found</h3>
-            <p className="text-gray-500">Be the first to post a job opening!</p>
           </div>
         )}
-          </>
-        ) : null}
-        {activeTab === "profile" && <div className="text-center py-20 text-gray-400">Profile content is managed via the profile modal.</div>}
       </main>
 
       {/* Post Job Modal */}
@@ -1201,7 +4290,7 @@ export default function App() {
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={() => setIsModalOpen(false)}
+              onClick={closeJobModal}
               className="absolute inset-0 bg-black/40 backdrop-blur-sm"
             />
             <motion.div
@@ -1212,14 +4301,11 @@ export default function App() {
             >
               <div className="flex justify-between items-center mb-8">
                 <div>
-                  <h2 className="text-3xl font-display font-bold tracking-tight text-slate-900">Post a Job</h2>
-                  <p className="text-slate-500 text-sm">Fill in the details to find your next great hire.</p>
+                  <h2 className="text-3xl font-display font-bold tracking-tight text-slate-900">{editingJobId ? "Edit Job" : "Post a Job"}</h2>
+                  <p className="text-slate-500 text-sm">{editingJobId ? "Fix details or update the link of your posting." : "Fill in the details to find your next great hire."}</p>
                 </div>
                 <button
-                  onClick={() => {
-                    setIsModalOpen(false);
-                    setMagicLink("");
-                  }}
+                  onClick={closeJobModal}
                   className="p-3 hover:bg-slate-100 rounded-2xl transition-colors text-slate-400"
                 >
                   <X size={24} />
@@ -1352,6 +4438,21 @@ export default function App() {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Expires On (Optional)</label>
+                  <input
+                    type="date"
+                    className="w-full px-5 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
+                    value={newJob.expires_at}
+                    onChange={(e) => setNewJob({ ...newJob, expires_at: e.target.value })}
+                  />
+                  <p className="text-[10px] text-slate-400 ml-1">
+                    {editingJobId
+                      ? `Currently expires ${(() => { const job = myPostings.find(j => j.id === editingJobId); return job?.expires_at ? new Date(job.expires_at).toLocaleDateString() : "never"; })()}. Leave blank to keep it.`
+                      : "Leave blank to use the default lifetime. Expired postings are archived automatically."}
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Requirements (Optional)</label>
                   <textarea
@@ -1367,7 +4468,7 @@ export default function App() {
                   disabled={isSubmitting}
                   className="w-full btn-primary py-5 rounded-2xl text-lg font-bold shadow-xl shadow-indigo-500/30 flex items-center justify-center gap-3"
                 >
-                  {isSubmitting ? <Loader2 className="w-6 h-6 animate-spin" /> : <><Plus size={22} /> Post Job Opening</>}
+                  {isSubmitting ? <Loader2 className="w-6 h-6 animate-spin" /> : editingJobId ? <><Save size={22} /> Save Changes</> : <><Plus size={22} /> Post Job Opening</>}
                 </button>
               </form>
             </motion.div>
@@ -1485,71 +4586,287 @@ export default function App() {
                           onChange={(e) => setProfile({ ...profile, location: e.target.value })}
                         />
                       </div>
-                    </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 ml-1">
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">Mobile Number</label>
+                      {user?.phone_verified && user.phone === phoneInput ? (
+                        <span className="flex items-center gap-1 text-emerald-500 text-[10px] font-bold uppercase tracking-wider">
+                          <CheckCircle2 size={12} />
+                          Verified
+                        </span>
+                      ) : (
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-amber-500">Not verified</span>
+                      )}
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      <div className="relative flex-1">
+                        <Phone className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                        <input
+                          type="tel"
+                          placeholder="+919876543210"
+                          className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
+                          value={phoneInput}
+                          onChange={(e) => { setPhoneInput(e.target.value); setPhoneCodeSent(false); }}
+                        />
+                      </div>
+                      {phoneCodeSent ? (
+                        <>
+                          <input
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            maxLength={6}
+                            placeholder="6-digit code"
+                            className="sm:w-40 px-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 font-mono"
+                            value={phoneCode}
+                            onChange={(e) => setPhoneCode(e.target.value.replace(/\D/g, ""))}
+                          />
+                          <button
+                            type="button"
+                            onClick={handleVerifyPhone}
+                            className="px-5 py-4 bg-indigo-600 text-white rounded-2xl text-sm font-bold hover:bg-indigo-700 transition-all"
+                          >
+                            Verify
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={handleSendPhoneCode}
+                          disabled={!phoneInput || (!!user?.phone_verified && user.phone === phoneInput)}
+                          className="px-5 py-4 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-2xl text-sm font-bold hover:bg-indigo-100 transition-all disabled:opacity-40"
+                        >
+                          Send Code
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-400 ml-1">A verified number lets you sign in with a one-time code.</p>
+                  </div>
+                </div>
+
+                {/* Professional Details Section */}
+                <div className="space-y-6">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Professional Details</h3>
+                  <div className="space-y-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Skills</label>
+                    <div className="flex flex-wrap items-center gap-2 p-3 rounded-2xl border border-slate-200 bg-slate-50/50">
+                      {profile.skills.map(skill => (
+                        <span key={skill} className="flex items-center gap-1 pl-3 pr-1.5 py-1 rounded-xl bg-indigo-50 text-indigo-600 text-xs font-bold">
+                          {skill}
+                          <button type="button" onClick={() => saveSkills(profile.skills.filter(s => s !== skill))} className="p-0.5 hover:text-indigo-800">
+                            <X size={12} />
+                          </button>
+                        </span>
+                      ))}
+                      <input
+                        type="text"
+                        list="skill-suggestions"
+                        placeholder={profile.skills.length ? "Add another skill" : "React, TypeScript, UI Design..."}
+                        className="flex-1 min-w-[160px] px-2 py-1 bg-transparent focus:outline-none text-sm text-slate-900"
+                        value={skillInput}
+                        onChange={(e) => setSkillInput(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" || e.key === ",") {
+                            e.preventDefault();
+                            handleAddSkill();
+                          }
+                        }}
+                        onBlur={handleAddSkill}
+                      />
+                      <datalist id="skill-suggestions">
+                        {skillSuggestions.map(name => <option key={name} value={name} />)}
+                      </datalist>
+                    </div>
+                    <p className="text-xs text-slate-400 ml-1">Press Enter after each skill. Skills are saved as you add them.</p>
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Work History</label>
+                      {entryForm?.type !== "experiences" && (
+                        <button
+                          type="button"
+                          onClick={() => setEntryForm({ type: "experiences", id: null, values: {} })}
+                          className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-700"
+                        >
+                          <Plus size={14} />
+                          Add Position
+                        </button>
+                      )}
+                    </div>
+                    {profile.experiences.length === 0 && entryForm?.type !== "experiences" && (
+                      <p className="text-sm text-slate-400 ml-1">No positions added yet.</p>
+                    )}
+                    {profile.experiences.map((entry) => entryForm?.type === "experiences" && entryForm.id === entry.id ? null : (
+                      <div key={entry.id} className="flex items-start gap-3 p-4 rounded-2xl border border-slate-200 bg-white">
+                        <Briefcase className="w-4 h-4 text-slate-400 mt-0.5 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-bold text-sm text-slate-900">{entry.title}</div>
+                          <div className="text-xs text-slate-500">{[entry.company, formatEntryDates(entry)].filter(Boolean).join(" · ")}</div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setEntryForm({
+                            type: "experiences",
+                            id: entry.id,
+                            values: Object.fromEntries(PROFILE_ENTRY_FIELDS.experiences.map(field => [field.name, (entry as any)[field.name] || ""])),
+                          })}
+                          className="text-xs font-bold text-slate-500 hover:text-indigo-600"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteEntry("experiences", entry.id)}
+                          className="text-slate-400 hover:text-red-600"
+                          title="Remove"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                    {entryForm?.type === "experiences" && (
+                      <div className="p-4 rounded-2xl border border-indigo-100 bg-indigo-50/30 space-y-3">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          {PROFILE_ENTRY_FIELDS.experiences.map(field => (
+                            <div key={field.name} className={`space-y-1 ${field.type === "textarea" ? "md:col-span-2" : ""}`}>
+                              <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">{field.label}</label>
+                              {field.type === "textarea" ? (
+                                <textarea
+                                  rows={3}
+                                  placeholder={field.placeholder}
+                                  className="w-full px-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 text-sm resize-none"
+                                  value={entryForm.values[field.name] || ""}
+                                  onChange={(e) => setEntryForm({ ...entryForm, values: { ...entryForm.values, [field.name]: e.target.value } })}
+                                />
+                              ) : (
+                                <input
+                                  type={field.type || "text"}
+                                  placeholder={field.placeholder}
+                                  className="w-full px-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 text-sm"
+                                  value={entryForm.values[field.name] || ""}
+                                  onChange={(e) => setEntryForm({ ...entryForm, values: { ...entryForm.values, [field.name]: e.target.value } })}
+                                />
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <button type="button" onClick={() => setEntryForm(null)} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100">
+                            Cancel
+                          </button>
+                          <button type="button" onClick={handleSaveEntry} className="btn-primary px-4 py-2 text-sm">
+                            {entryForm.id ? "Save Changes" : "Add"}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Education</label>
+                      {entryForm?.type !== "education" && (
+                        <button
+                          type="button"
+                          onClick={() => setEntryForm({ type: "education", id: null, values: {} })}
+                          className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-700"
+                        >
+                          <Plus size={14} />
+                          Add Education
+                        </button>
+                      )}
+                    </div>
+                    {profile.education.length === 0 && entryForm?.type !== "education" && (
+                      <p className="text-sm text-slate-400 ml-1">No education added yet.</p>
+                    )}
+                    {profile.education.map((entry) => entryForm?.type === "education" && entryForm.id === entry.id ? null : (
+                      <div key={entry.id} className="flex items-start gap-3 p-4 rounded-2xl border border-slate-200 bg-white">
+                        <GraduationCap className="w-4 h-4 text-slate-400 mt-0.5 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-bold text-sm text-slate-900">{entry.institution}</div>
+                          <div className="text-xs text-slate-500">{[entry.degree, entry.field_of_study, formatEntryDates(entry)].filter(Boolean).join(" · ")}</div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setEntryForm({
+                            type: "education",
+                            id: entry.id,
+                            values: Object.fromEntries(PROFILE_ENTRY_FIELDS.education.map(field => [field.name, (entry as any)[field.name] || ""])),
+                          })}
+                          className="text-xs font-bold text-slate-500 hover:text-indigo-600"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteEntry("education", entry.id)}
+                          className="text-slate-400 hover:text-red-600"
+                          title="Remove"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                    {entryForm?.type === "education" && (
+                      <div className="p-4 rounded-2xl border border-indigo-100 bg-indigo-50/30 space-y-3">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          {PROFILE_ENTRY_FIELDS.education.map(field => (
+                            <div key={field.name} className={`space-y-1 ${field.type === "textarea" ? "md:col-span-2" : ""}`}>
+                              <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">{field.label}</label>
+                              {field.type === "textarea" ? (
+                                <textarea
+                                  rows={3}
+                                  placeholder={field.placeholder}
+                                  className="w-full px-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 text-sm resize-none"
+                                  value={entryForm.values[field.name] || ""}
+                                  onChange={(e) => setEntryForm({ ...entryForm, values: { ...entryForm.values, [field.name]: e.target.value } })}
+                                />
+                              ) : (
+                                <input
+                                  type={field.type || "text"}
+                                  placeholder={field.placeholder}
+                                  className="w-full px-4 py-3 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 text-sm"
+                                  value={entryForm.values[field.name] || ""}
+                                  onChange={(e) => setEntryForm({ ...entryForm, values: { ...entryForm.values, [field.name]: e.target.value } })}
+                                />
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <button type="button" onClick={() => setEntryForm(null)} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100">
+                            Cancel
+                          </button>
+                          <button type="button" onClick={handleSaveEntry} className="btn-primary px-4 py-2 text-sm">
+                            {entryForm.id ? "Save Changes" : "Add"}
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
-                </div>
 
-                {/* Professional Details Section */}
-                <div className="space-y-6">
-                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Professional Details</h3>
                   <div className="space-y-2">
-                    <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Skills (comma separated)</label>
-                    <div className="relative">
-                      <Award className="absolute left-4 top-4 text-slate-400 w-4 h-4" />
-                      <textarea
-                        rows={2}
-                        placeholder="React, TypeScript, Node.js, UI Design..."
-                        className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 resize-none"
-                        value={profile.skills}
-                        onChange={(e) => setProfile({ ...profile, skills: e.target.value })}
-                      />
-                    </div>
-                  </div>
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div className="space-y-2">
-                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Education</label>
-                      <div className="relative">
-                        <GraduationCap className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Resume (PDF/DOC)</label>
+                    <div className="flex gap-2">
+                      <div className="relative flex-1">
+                        <FileText className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
                         <input
-                          type="text"
-                          placeholder="Degree, University"
+                          type="url"
+                          placeholder="https://..."
                           className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
-                          value={profile.education}
-                          onChange={(e) => setProfile({ ...profile, education: e.target.value })}
+                          value={profile.resume_url}
+                          onChange={(e) => setProfile({ ...profile, resume_url: e.target.value })}
                         />
                       </div>
+                      <label className="cursor-pointer bg-slate-100 hover:bg-slate-200 p-4 rounded-2xl transition-colors flex items-center justify-center min-w-[56px] text-slate-600">
+                        {isUploading ? <Loader2 className="animate-spin text-indigo-600" size={20} /> : <Upload size={20} />}
+                        <input type="file" className="hidden" accept=".pdf,.doc,.docx" onChange={handleResumeUpload} disabled={isUploading} />
+                      </label>
                     </div>
-                    <div className="space-y-2">
-                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Resume (PDF/DOC)</label>
-                      <div className="flex gap-2">
-                        <div className="relative flex-1">
-                          <FileText className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
-                          <input
-                            type="url"
-                            placeholder="https://..."
-                            className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
-                            value={profile.resume_url}
-                            onChange={(e) => setProfile({ ...profile, resume_url: e.target.value })}
-                          />
-                        </div>
-                        <label className="cursor-pointer bg-slate-100 hover:bg-slate-200 p-4 rounded-2xl transition-colors flex items-center justify-center min-w-[56px] text-slate-600">
-                          {isUploading ? <Loader2 className="animate-spin text-indigo-600" size={20} /> : <Upload size={20} />}
-                          <input type="file" className="hidden" accept=".pdf,.doc,.docx" onChange={handleResumeUpload} disabled={isUploading} />
-                        </label>
-                      </div>
-                    </div>
-                  </div>
-
-                  <div className="space-y-2">
-                    <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Experience Summary</label>
-                    <textarea
-                      rows={3}
-                      placeholder="Briefly describe your work history..."
-                      className="w-full px-5 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 resize-none"
-                      value={profile.experience}
-                      onChange={(e) => setProfile({ ...profile, experience: e.target.value })}
-                    />
                   </div>
                 </div>
 
@@ -1599,6 +4916,47 @@ export default function App() {
                   </div>
                 </div>
 
+                {/* Active Sessions Section */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between ml-1">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Active Sessions</h3>
+                    {sessions.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={handleRevokeOtherSessions}
+                        className="text-xs font-bold text-red-500 hover:text-red-600 uppercase tracking-wider"
+                      >
+                        Log out other devices
+                      </button>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {sessions.map((session) => (
+                      <div key={session.id} className="flex items-center justify-between px-5 py-3 rounded-2xl bg-slate-50 border border-slate-100">
+                        <div>
+                          <p className="text-sm font-semibold text-slate-800">
+                            {describeUserAgent(session.user_agent)}
+                            {session.current && <span className="ml-2 text-[10px] font-bold uppercase tracking-wider text-emerald-600">This device</span>}
+                          </p>
+                          <p className="text-xs text-slate-400">
+                            {session.ip || "Unknown IP"} · last active {new Date(session.last_used_at.replace(" ", "T") + "Z").toLocaleString()}
+                          </p>
+                        </div>
+                        {!session.current && (
+                          <button
+                            type="button"
+                            onClick={() => handleRevokeSession(session.id)}
+                            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                            title="Sign Out This Device"
+                          >
+                            <LogOut size={16} />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
                 <div className="flex items-center justify-between p-6 bg-slate-50 rounded-[2rem] border border-slate-200 shadow-sm">
                   <div className="flex items-center gap-4">
                     <div className={`p-3 rounded-2xl shadow-sm ${profile.is_public ? "bg-emerald-100 text-emerald-600" : "bg-slate-200 text-slate-500"}`}>
@@ -1606,7 +4964,7 @@ export default function App() {
                     </div>
                     <div>
                       <p className="text-sm font-bold text-slate-900">Profile Visibility</p>
-                      <p className="text-xs text-slate-500">{profile.is_public ? "Your profile is visible to recruiters" : "Your profile is hidden from recruiters"}</p>
+                      <p className="text-xs text-slate-500">{profile.is_public ? "Your profile is listed in the candidate directory" : "Your profile is hidden from the directory and recruiters"}</p>
                     </div>
                   </div>
                   <button
@@ -1630,6 +4988,231 @@ export default function App() {
           </div>
         )}
       </AnimatePresence>
+      {/* Apply Modal */}
+      <AnimatePresence>
+        {applyJob && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setApplyJob(null)}
+              className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="bg-white rounded-[2.5rem] w-full max-w-xl p-10 relative shadow-2xl overflow-hidden border border-slate-100"
+            >
+              <div className="flex justify-between items-center mb-8">
+                <div>
+                  <h2 className="text-3xl font-display font-bold tracking-tight text-slate-900">Apply</h2>
+                  <p className="text-slate-500 text-sm">{applyJob.title} at {applyJob.company}</p>
+                </div>
+                <button
+                  onClick={() => setApplyJob(null)}
+                  className="p-3 hover:bg-slate-100 rounded-2xl transition-colors text-slate-400"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+
+              <form onSubmit={handleApply} className="space-y-6">
+                <div className="p-6 bg-slate-50 rounded-3xl border border-slate-200 space-y-3">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest">Your application includes</h3>
+                  <div className="flex items-center gap-2 text-sm text-slate-700">
+                    <User size={16} className="text-slate-400" />
+                    <span className="font-bold">{profile.name || user?.username}</span>
+                    <span className="text-slate-400">{profile.email}</span>
+                  </div>
+                  {profile.resume_url ? (
+                    <a
+                      href={profile.resume_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+                    >
+                      <FileText size={16} />
+                      Resume on file
+                    </a>
+                  ) : (
+                    <div className="flex items-center justify-between gap-4 text-sm text-orange-600">
+                      <span>Add a resume to your profile before applying.</span>
+                      <button
+                        type="button"
+                        onClick={() => { setApplyJob(null); setIsProfileModalOpen(true); }}
+                        className="px-4 py-2 bg-orange-50 border border-orange-100 rounded-xl text-xs font-bold hover:bg-orange-100 transition-all"
+                      >
+                        Edit Profile
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Cover Note (Optional)</label>
+                  <textarea
+                    placeholder="Why are you a good fit for this role?"
+                    className="w-full px-5 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 resize-none h-32"
+                    value={coverNote}
+                    onChange={(e) => setCoverNote(e.target.value)}
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !profile.resume_url}
+                  className="w-full btn-primary py-5 rounded-2xl text-lg font-bold shadow-xl shadow-indigo-500/30 flex items-center justify-center gap-3 disabled:opacity-50"
+                >
+                  {isSubmitting ? <Loader2 className="w-6 h-6 animate-spin" /> : <><CheckCircle2 size={22} /> Submit Application</>}
+                </button>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      {/* Applicants Modal */}
+      <AnimatePresence>
+        {applicantsJob && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setApplicantsJob(null)}
+              className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="bg-white rounded-[2.5rem] w-full max-w-7xl p-10 relative shadow-2xl overflow-y-auto max-h-[90vh] border border-slate-100"
+            >
+              <div className="flex justify-between items-center mb-8">
+                <div>
+                  <h2 className="text-3xl font-display font-bold tracking-tight text-slate-900">Applicants</h2>
+                  <p className="text-slate-500 text-sm">{applicantsJob.title} at {applicantsJob.company}</p>
+                </div>
+                <button
+                  onClick={() => setApplicantsJob(null)}
+                  className="p-3 hover:bg-slate-100 rounded-2xl transition-colors text-slate-400"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+
+              {applicants.length > 0 ? (
+                <div className="flex gap-4 overflow-x-auto pb-2">
+                  {APPLICATION_STAGES.map((stage) => {
+                    const stageApplicants = applicants.filter(a => a.status === stage);
+                    return (
+                      <div key={stage} className="w-72 flex-shrink-0 bg-slate-50 rounded-3xl border border-slate-200 p-4 space-y-3">
+                        <div className="flex items-center justify-between px-1">
+                          <span className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider ${APPLICATION_STATUS_STYLES[stage]}`}>
+                            {stage}
+                          </span>
+                          <span className="text-xs font-bold text-slate-400">{stageApplicants.length}</span>
+                        </div>
+                        {stageApplicants.map((applicant) => (
+                          <div key={applicant.id} className="p-4 rounded-2xl border border-slate-200 bg-white space-y-3">
+                            <div className="flex items-center gap-3">
+                              <div className="w-9 h-9 rounded-xl bg-indigo-50 flex items-center justify-center text-indigo-600 font-bold border border-indigo-100 overflow-hidden flex-shrink-0">
+                                {applicant.photo_url ? (
+                                  <img src={applicant.photo_url} alt={applicant.name} className="w-full h-full object-cover" referrerPolicy="no-referrer" />
+                                ) : (
+                                  applicant.username[0].toUpperCase()
+                                )}
+                              </div>
+                              <div className="min-w-0">
+                                <div className="font-bold text-sm text-slate-900 truncate">{applicant.name || applicant.username}</div>
+                                <div className="text-xs text-slate-400 truncate">{applicant.email}</div>
+                              </div>
+                            </div>
+                            {applicant.experiences.length > 0 && (
+                              <p className="text-xs text-slate-500 truncate">{describeExperience(applicant.experiences[0])}</p>
+                            )}
+                            {applicant.skills.length > 0 && (
+                              <p className="text-xs text-slate-500 line-clamp-2"><span className="font-bold text-slate-600">Skills:</span> {applicant.skills.join(", ")}</p>
+                            )}
+                            {applicant.cover_note && (
+                              <p className="text-xs text-slate-600 italic leading-relaxed line-clamp-3">"{applicant.cover_note}"</p>
+                            )}
+                            <div className="flex items-center gap-1">
+                              <a
+                                href={applicant.resume_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="px-3 py-1.5 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl text-xs font-bold hover:bg-indigo-100 transition-all flex items-center gap-1.5"
+                              >
+                                <FileText size={12} />
+                                Resume
+                              </a>
+                              {applicant.linkedin_url && (
+                                <a href={applicant.linkedin_url} target="_blank" rel="noopener noreferrer" className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+                                  <Linkedin size={14} />
+                                </a>
+                              )}
+                              {applicant.github_url && (
+                                <a href={applicant.github_url} target="_blank" rel="noopener noreferrer" className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+                                  <Github size={14} />
+                                </a>
+                              )}
+                              {applicant.portfolio_url && (
+                                <a href={applicant.portfolio_url} target="_blank" rel="noopener noreferrer" className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+                                  <Globe size={14} />
+                                </a>
+                              )}
+                              <button
+                                onClick={() => toggleApplicationHistory(applicant.id)}
+                                className="ml-auto p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                                title="Status history"
+                              >
+                                <Calendar size={14} />
+                              </button>
+                            </div>
+                            {applicant.next_statuses.length > 0 && (
+                              <div className="flex flex-wrap gap-1.5 pt-2 border-t border-slate-100">
+                                {applicant.next_statuses.map((next) => (
+                                  <button
+                                    key={next}
+                                    onClick={() => handleApplicationStatus(applicant.id, next, false)}
+                                    className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider hover:opacity-80 transition-all ${APPLICATION_STATUS_STYLES[next]}`}
+                                  >
+                                    → {next}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                            {applicationHistory[applicant.id] && (
+                              <div className="space-y-2 pt-2 border-t border-slate-100">
+                                {applicationHistory[applicant.id].map((entry) => (
+                                  <div key={entry.id} className="text-[11px] text-slate-500">
+                                    <span className="font-bold text-slate-700">{entry.to_status}</span>
+                                    {" · "}{new Date(entry.created_at).toLocaleString()}
+                                    {entry.note && <p className="italic text-slate-600">{entry.note}</p>}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-12 text-slate-400">
+                  <Users className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+                  No applications yet.
+                </div>
+              )}
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
       {/* Auth Modal */}
       <AnimatePresence>
         {isAuthModalOpen && (
@@ -1650,10 +5233,10 @@ export default function App() {
               <div className="flex justify-between items-center mb-8">
                 <div>
                   <h2 className="text-3xl font-display font-bold tracking-tight text-slate-900">
-                    {authMode === "login" ? "Welcome Back" : authMode === "register" ? "Create Account" : "Reset Password"}
+                    {authMode === "login" || authMode === "otp" ? "Welcome Back" : authMode === "mfa" ? "Two-Factor Check" : authMode === "register" ? "Create Account" : authMode === "reset" ? "Choose New Password" : "Reset Password"}
                   </h2>
                   <p className="text-slate-500 text-sm mt-1">
-                    {authMode === "login" ? "Login to manage your profile and jobs" : authMode === "register" ? "Join our community of professionals" : "Enter your email to reset password"}
+                    {authMode === "login" ? "Login to manage your profile and jobs" : authMode === "mfa" ? "Enter the code from your authenticator app or a backup code" : authMode === "otp" ? "Sign in with a code sent to your verified phone" : authMode === "register" ? "Join our community of professionals" : authMode === "reset" ? "Enter a new password for your account" : "We'll email you a link to reset your password"}
                   </p>
                 </div>
                 <button
@@ -1694,8 +5277,87 @@ export default function App() {
                         />
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Invite Code</label>
+                      <div className="relative">
+                        <Ticket className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                        <input
+                          type="text"
+                          placeholder="Not needed for approved email domains"
+                          className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
+                          value={authForm.invite_code}
+                          onChange={(e) => setAuthForm({ ...authForm, invite_code: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+                {authMode === "otp" && (
+                  <>
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Phone Number</label>
+                      <div className="relative">
+                        <Phone className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                        <input
+                          required
+                          type="tel"
+                          placeholder="+919876543210"
+                          disabled={otpSent}
+                          className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 disabled:opacity-60"
+                          value={otpForm.phone}
+                          onChange={(e) => setOtpForm({ ...otpForm, phone: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    {otpSent && (
+                      <div className="space-y-2">
+                        <div className="flex justify-between items-center ml-1">
+                          <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">6-Digit Code</label>
+                          <button
+                            type="button"
+                            onClick={() => switchAuthMode("otp")}
+                            className="text-xs font-bold text-indigo-600 hover:text-indigo-700 uppercase tracking-wider"
+                          >
+                            Change Number
+                          </button>
+                        </div>
+                        <div className="relative">
+                          <Lock className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                          <input
+                            required
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            maxLength={6}
+                            placeholder="123456"
+                            className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 tracking-[0.5em] font-mono"
+                            value={otpForm.code}
+                            onChange={(e) => setOtpForm({ ...otpForm, code: e.target.value.replace(/\D/g, "") })}
+                          />
+                        </div>
+                      </div>
+                    )}
                   </>
                 )}
+                {authMode === "mfa" && (
+                  <div className="space-y-2">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Authentication Code</label>
+                    <div className="relative">
+                      <ShieldCheck className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                      <input
+                        required
+                        autoFocus
+                        type="text"
+                        autoComplete="one-time-code"
+                        placeholder="123456 or backup code"
+                        className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 font-mono"
+                        value={mfaCode}
+                        onChange={(e) => setMfaCode(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
+                {authMode !== "reset" && authMode !== "otp" && authMode !== "mfa" && (
                 <div className="space-y-2">
                   <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">
                     {authMode === "login" ? "Username or Email" : "Email Address"}
@@ -1705,17 +5367,18 @@ export default function App() {
                     <input
                       required
                       type={authMode === "login" ? "text" : "email"}
-                      placeholder={authMode === "login" ? "Admin or john@example.com" : "john@example.com"}
+                      placeholder={authMode === "login" ? "johndoe or john@example.com" : "john@example.com"}
                       className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
                       value={authForm.email}
                       onChange={(e) => setAuthForm({ ...authForm, email: e.target.value })}
                     />
                   </div>
                 </div>
-                {authMode !== "forgot" && (
+                )}
+                {authMode !== "forgot" && authMode !== "otp" && authMode !== "mfa" && (
                   <div className="space-y-2">
                     <div className="flex justify-between items-center ml-1">
-                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">Password</label>
+                      <label className="text-xs font-bold text-slate-400 uppercase tracking-widest">{authMode === "reset" ? "New Password" : "Password"}</label>
                       {authMode === "login" && (
                         <button
                           type="button"
@@ -1737,6 +5400,9 @@ export default function App() {
                         onChange={(e) => setAuthForm({ ...authForm, password: e.target.value })}
                       />
                     </div>
+                    {(authMode === "register" || authMode === "reset") && passwordPolicy && (
+                      <p className="text-xs text-slate-400 ml-1">{describePasswordPolicy(passwordPolicy)}</p>
+                    )}
                   </div>
                 )}
 
@@ -1745,18 +5411,36 @@ export default function App() {
                   disabled={isLoading}
                   className="w-full btn-primary py-5 rounded-2xl text-lg font-bold shadow-xl shadow-indigo-500/30 flex items-center justify-center gap-3 mt-4"
                 >
-                  {isLoading ? <Loader2 className="w-6 h-6 animate-spin" /> : (authMode === "login" ? "Sign In" : authMode === "register" ? "Create Account" : "Send Reset Link")}
+                  {isLoading ? <Loader2 className="w-6 h-6 animate-spin" /> : (authMode === "login" ? "Sign In" : authMode === "mfa" ? "Verify" : authMode === "otp" ? (otpSent ? "Verify & Sign In" : "Send Code") : authMode === "register" ? "Create Account" : authMode === "reset" ? "Update Password" : "Send Reset Link")}
                 </button>
+                {(authMode === "login" || authMode === "otp") && (
+                  <button
+                    type="button"
+                    onClick={() => switchAuthMode(authMode === "login" ? "otp" : "login")}
+                    className="w-full text-sm font-bold text-slate-500 hover:text-indigo-600 transition-colors"
+                  >
+                    {authMode === "login" ? "Sign in with a phone code instead" : "Use password instead"}
+                  </button>
+                )}
+                {authMode === "login" && ssoProvider?.enabled && (
+                  <a
+                    href="/api/auth/oidc/start"
+                    className="w-full py-4 rounded-2xl border border-slate-200 bg-white text-slate-700 font-bold hover:border-indigo-300 hover:text-indigo-600 transition-all flex items-center justify-center gap-3"
+                  >
+                    <Building2 className="w-5 h-5" />
+                    Continue with {ssoProvider.name}
+                  </a>
+                )}
               </form>
 
               <div className="mt-8 pt-8 border-t border-slate-100 text-center">
                 <p className="text-sm text-slate-500">
-                  {authMode === "login" ? "Don't have an account?" : "Already have an account?"}
+                  {authMode === "login" || authMode === "otp" ? "Don't have an account?" : "Already have an account?"}
                   <button
-                    onClick={() => setAuthMode(authMode === "login" ? "register" : "login")}
+                    onClick={() => { setMfaToken(null); switchAuthMode(authMode === "login" || authMode === "otp" ? "register" : "login"); }}
                     className="ml-2 font-bold text-indigo-600 hover:text-indigo-700"
                   >
-                    {authMode === "login" ? "Sign Up" : "Sign In"}
+                    {authMode === "login" || authMode === "otp" ? "Sign Up" : "Sign In"}
                   </button>
                 </p>
               </div>
@@ -1785,7 +5469,9 @@ export default function App() {
               <div className="flex justify-between items-center mb-8">
                 <div>
                   <h2 className="text-2xl font-display font-bold tracking-tight text-slate-900">Change Password</h2>
-                  <p className="text-slate-500 text-xs mt-1">Secure your account with a new password.</p>
+                  <p className="text-slate-500 text-xs mt-1">
+                    {user?.must_change_password ? "You're using a default or temporary password. Choose a new one to continue." : "Secure your account with a new password."}
+                  </p>
                 </div>
                 <button
                   onClick={() => setIsSelfResetModalOpen(false)}
@@ -1796,6 +5482,21 @@ export default function App() {
               </div>
 
               <form onSubmit={handleSelfResetPassword} className="space-y-6">
+                <div className="space-y-2">
+                  <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">Current Password</label>
+                  <div className="relative">
+                    <Lock className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <input
+                      required
+                      type="password"
+                      autoComplete="current-password"
+                      placeholder="••••••••"
+                      className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
+                      value={selfCurrentPassword}
+                      onChange={(e) => setSelfCurrentPassword(e.target.value)}
+                    />
+                  </div>
+                </div>
                 <div className="space-y-2">
                   <label className="text-xs font-bold text-slate-400 uppercase tracking-widest ml-1">New Password</label>
                   <div className="relative">
@@ -1805,10 +5506,12 @@ export default function App() {
                       type="password"
                       placeholder="••••••••"
                       className="w-full pl-11 pr-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
+                      autoComplete="new-password"
                       value={selfResetPassword}
                       onChange={(e) => setSelfResetPassword(e.target.value)}
                     />
                   </div>
+                  {passwordPolicy && <p className="text-xs text-slate-400 ml-1">{describePasswordPolicy(passwordPolicy)}</p>}
                 </div>
 
                 <button
@@ -1823,6 +5526,126 @@ export default function App() {
           </div>
         )}
       </AnimatePresence>
+
+      {/* Two-Factor Modal */}
+      <AnimatePresence>
+        {isTwoFactorModalOpen && (
+          <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setIsTwoFactorModalOpen(false)}
+              className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="bg-white rounded-[2.5rem] w-full max-w-md p-10 relative shadow-2xl overflow-hidden border border-slate-100 max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex justify-between items-center mb-8">
+                <div>
+                  <h2 className="text-2xl font-display font-bold tracking-tight text-slate-900">Two-Factor Auth</h2>
+                  <p className="text-slate-500 text-xs mt-1">
+                    {twoFactorStatus?.enabled ? `On · ${twoFactorStatus.backupCodesRemaining} backup codes left` : "Protect your account with an authenticator app."}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setIsTwoFactorModalOpen(false)}
+                  className="p-3 hover:bg-slate-100 rounded-2xl transition-colors text-slate-400"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+
+              {backupCodes ? (
+                <div className="space-y-5">
+                  <p className="text-sm text-slate-600">Save these backup codes somewhere safe. Each one works once if you lose your authenticator. They won't be shown again.</p>
+                  <div className="grid grid-cols-2 gap-2 p-4 rounded-2xl bg-slate-50 border border-slate-200 font-mono text-sm text-slate-800">
+                    {backupCodes.map(code => <span key={code}>{code}</span>)}
+                  </div>
+                  <button
+                    onClick={() => setBackupCodes(null)}
+                    className="w-full btn-primary py-4 rounded-2xl font-bold"
+                  >
+                    I've Saved Them
+                  </button>
+                </div>
+              ) : twoFactorSetup ? (
+                <form onSubmit={handleEnableTwoFactor} className="space-y-5">
+                  <p className="text-sm text-slate-600">Scan this code with your authenticator app, then enter the 6-digit code it shows.</p>
+                  <img src={twoFactorSetup.qrCode} alt="Authenticator QR code" className="w-48 h-48 mx-auto rounded-2xl border border-slate-200" />
+                  <div className="text-center">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Or enter this key</p>
+                    <p className="font-mono text-sm text-slate-800 break-all mt-1">{twoFactorSetup.secret}</p>
+                  </div>
+                  <input
+                    required
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    placeholder="123456"
+                    className="w-full px-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 text-center tracking-[0.5em] font-mono"
+                    value={twoFactorForm.code}
+                    onChange={(e) => setTwoFactorForm({ ...twoFactorForm, code: e.target.value.replace(/\D/g, "") })}
+                  />
+                  <button type="submit" className="w-full btn-primary py-4 rounded-2xl font-bold flex items-center justify-center gap-2">
+                    <ShieldCheck size={18} />
+                    Turn On
+                  </button>
+                </form>
+              ) : twoFactorStatus?.enabled ? (
+                <div className="space-y-5">
+                  <input
+                    type="text"
+                    autoComplete="one-time-code"
+                    placeholder="Current code or backup code"
+                    className="w-full px-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900 font-mono"
+                    value={twoFactorForm.code}
+                    onChange={(e) => setTwoFactorForm({ ...twoFactorForm, code: e.target.value })}
+                  />
+                  <button
+                    onClick={handleRegenerateBackupCodes}
+                    className="w-full py-4 rounded-2xl bg-indigo-50 text-indigo-600 font-bold hover:bg-indigo-100 transition-all flex items-center justify-center gap-2"
+                  >
+                    <KeyRound size={18} />
+                    New Backup Codes
+                  </button>
+                  {twoFactorStatus.required ? (
+                    <p className="text-xs text-slate-400 text-center">Two-factor authentication is required for admin accounts.</p>
+                  ) : (
+                    <>
+                      <input
+                        type="password"
+                        placeholder="Current password"
+                        className="w-full px-4 py-4 rounded-2xl border border-slate-200 bg-slate-50/50 focus:outline-none focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 transition-all text-slate-900"
+                        value={twoFactorForm.password}
+                        onChange={(e) => setTwoFactorForm({ ...twoFactorForm, password: e.target.value })}
+                      />
+                      <button
+                        onClick={handleDisableTwoFactor}
+                        className="w-full py-4 rounded-2xl bg-red-50 text-red-600 font-bold hover:bg-red-100 transition-all"
+                      >
+                        Turn Off
+                      </button>
+                    </>
+                  )}
+                </div>
+              ) : (
+                <button
+                  onClick={handleStartTwoFactorSetup}
+                  className="w-full btn-primary py-5 rounded-2xl text-lg font-bold shadow-xl shadow-indigo-500/30 flex items-center justify-center gap-3"
+                >
+                  <ShieldCheck size={20} />
+                  Set Up Authenticator
+                </button>
+              )}
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
     </div>
   );
 }